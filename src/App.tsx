@@ -1,12 +1,21 @@
 import { builtInAI } from "@built-in-ai/core";
-import { useDisclosure } from "@mantine/hooks";
+import { useDisclosure, useHotkeys } from "@mantine/hooks";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { Toaster, toast } from "sonner";
 import { useShallow } from "zustand/react/shallow";
+import {
+	getEnteredContextLength,
+	getReportedContextLength,
+	resolveContextLength,
+} from "./ai/contextWindow";
+import { resolveGenerationSettings } from "./ai/generationSettings";
 import { buildOpenAICompatibleProvider } from "./ai/openaiCompatible";
 import ChatView from "./components/ChatView";
+import ConversationSidebar from "./components/ConversationSidebar";
 import DiagramView from "./components/DiagramView";
+import ExportModal from "./components/ExportModal";
 import Header from "./components/Header";
+import SearchPanel from "./components/SearchPanel";
 import SettingsModal from "./components/SettingsModal";
 import SnapshotIO from "./components/SnapshotIO";
 import TextCompletionView from "./components/TextCompletionView";
@@ -17,8 +26,15 @@ import { useConversationController } from "./hooks/useConversationController";
 import { useEnsureSystemMessage } from "./hooks/useEnsureSystemMessage";
 import { useProviderReadiness } from "./hooks/useProviderReadiness";
 import { useTextCompletion } from "./hooks/useTextCompletion";
+import { useTreePersistence } from "./hooks/useTreePersistence";
 import { useSettingsStore } from "./state/useSettingsStore";
-import type { AppView, ModelInfo } from "./types";
+import { useWorkspaceStore } from "./state/useWorkspaceStore";
+import type {
+	AppView,
+	DiagramFocusRequest,
+	GenerationSettings,
+	ModelInfo,
+} from "./types";
 
 const defaultSystemPrompt = "You are a helpful assistant.";
 const emptyModels: ModelInfo[] = [];
@@ -28,6 +44,14 @@ const App = () => {
 		providers,
 		activeProviderId,
 		setActiveModel,
+		setGenerationSettings,
+		setContextLength,
+		comparisonTargets,
+		setComparisonTargets,
+		tools,
+		enableJavaScriptTool,
+		autoRetry,
+		truncation,
 		enableBeforeUnloadWarning,
 		builtInAvailability,
 		hydrate,
@@ -37,13 +61,43 @@ const App = () => {
 			providers: state.providers,
 			activeProviderId: state.activeProviderId,
 			setActiveModel: state.setActiveModel,
+			setGenerationSettings: state.setGenerationSettings,
+			setContextLength: state.setContextLength,
+			comparisonTargets: state.comparisonTargets,
+			setComparisonTargets: state.setComparisonTargets,
+			tools: state.tools,
+			enableJavaScriptTool: state.enableJavaScriptTool,
+			autoRetry: state.autoRetry,
+			truncation: state.truncation,
 			enableBeforeUnloadWarning: state.enableBeforeUnloadWarning,
 			builtInAvailability: state.builtInAvailability,
 			hydrate: state.hydrate,
 			refreshBuiltInAvailability: state.refreshBuiltInAvailability,
 		})),
 	);
+	const {
+		conversations,
+		activeConversationId,
+		hydrate: hydrateWorkspace,
+		createConversation,
+		renameConversation,
+		duplicateConversation,
+		deleteConversation,
+		setActiveConversation,
+	} = useWorkspaceStore(
+		useShallow((state) => ({
+			conversations: state.conversations,
+			activeConversationId: state.activeConversationId,
+			hydrate: state.hydrate,
+			createConversation: state.createConversation,
+			renameConversation: state.renameConversation,
+			duplicateConversation: state.duplicateConversation,
+			deleteConversation: state.deleteConversation,
+			setActiveConversation: state.setActiveConversation,
+		})),
+	);
 	const [view, setView] = useState<AppView>("chat");
+	const [isSidebarOpen, { toggle: toggleSidebar }] = useDisclosure(true);
 
 	const activeProvider = useMemo(
 		() => providers.find((p) => p.id === activeProviderId),
@@ -55,6 +109,52 @@ const App = () => {
 
 	const providerKind = activeProvider?.kind ?? "openai-compatible";
 
+	const getGenerationSettings = useCallback(
+		(modelId: string | null) =>
+			resolveGenerationSettings(activeProvider, modelId),
+		[activeProvider],
+	);
+
+	const getContextLength = useCallback(
+		(modelId: string | null) => resolveContextLength(activeProvider, modelId),
+		[activeProvider],
+	);
+
+	const generationSettings = useMemo(
+		() => getGenerationSettings(activeModel),
+		[activeModel, getGenerationSettings],
+	);
+
+	const handleGenerationSettingsChange = useCallback(
+		(settings: GenerationSettings | null) => {
+			if (!activeProvider) {
+				toast.error("Add a provider in Settings first");
+				return;
+			}
+			void setGenerationSettings(activeProvider.id, activeModel, settings);
+		},
+		[activeModel, activeProvider, setGenerationSettings],
+	);
+
+	const reportedContextLength = useMemo(
+		() =>
+			getReportedContextLength(
+				models.find((model) => model.id === activeModel),
+			),
+		[activeModel, models],
+	);
+
+	const handleContextLengthChange = useCallback(
+		(contextLength: number | null) => {
+			if (!activeProvider) {
+				toast.error("Add a provider in Settings first");
+				return;
+			}
+			void setContextLength(activeProvider.id, activeModel, contextLength);
+		},
+		[activeModel, activeProvider, setContextLength],
+	);
+
 	const openAIProvider = useMemo(
 		() =>
 			buildOpenAICompatibleProvider({
@@ -75,22 +175,39 @@ const App = () => {
 		void hydrate();
 	}, [hydrate]);
 
+	useEffect(() => {
+		void hydrateWorkspace();
+	}, [hydrateWorkspace]);
+
+	const { isHydrated: isTreeHydrated } = useTreePersistence({
+		conversationId: activeConversationId,
+	});
+
 	useBuiltInAvailability({
 		providerKind,
 		onBuiltInSelected: () => setActiveModel(null),
 		refreshBuiltInAvailability,
 	});
 
-	const { ensureChatReady, ensureCompletionReady } = useProviderReadiness({
-		providerKind,
-		builtInAvailability,
-		activeModel,
-		openAIProvider,
-		getBuiltInChatModel,
-		baseURL: activeProvider?.config.baseURL ?? "",
-		apiKey: activeProvider?.config.apiKey ?? "",
-		tokensPerSecond: activeProvider?.config.tokensPerSecond,
-	});
+	const { ensureChatReady, ensureCompletionReady, ensureComparisonReady } =
+		useProviderReadiness({
+			providerKind,
+			builtInAvailability,
+			activeModel,
+			openAIProvider,
+			getBuiltInChatModel,
+			baseURL: activeProvider?.config.baseURL ?? "",
+			apiKey: activeProvider?.config.apiKey ?? "",
+			tokensPerSecond: activeProvider?.config.tokensPerSecond,
+			dummyScript: activeProvider?.config.script,
+			dummyFaults: activeProvider?.config.faults,
+			cassette: activeProvider?.config.cassette,
+			replayTiming: activeProvider?.config.replayTiming,
+			getGenerationSettings,
+			getContextLength,
+			providers,
+			comparisonTargets,
+		});
 
 	const {
 		chatMessages,
@@ -100,6 +217,11 @@ const App = () => {
 		isPromptDirty,
 		setIsPromptDirty,
 		send,
+		regenerate,
+		previewContext,
+		retryFailed,
+		continueReply,
+		runCode,
 		stop,
 		deleteMessage,
 		detachMessage,
@@ -109,6 +231,12 @@ const App = () => {
 		clearConversation,
 		duplicateFromNode,
 		activateThread,
+		siblingsByNode,
+		selectSibling,
+		setStarred,
+		setRank,
+		candidateMessages,
+		stopStream,
 		exportSnapshot,
 		importSnapshot,
 		abortActiveStreams,
@@ -117,9 +245,17 @@ const App = () => {
 		createSystemMessage,
 		setActiveTarget,
 		rerollFromToken,
+		undo,
+		redo,
+		goToHistoryEntry,
 	} = useConversationController({
 		defaultSystemPrompt,
 		ensureChatReady,
+		ensureComparisonReady,
+		tools,
+		enableJavaScriptTool,
+		autoRetry,
+		truncation,
 	});
 
 	const {
@@ -136,6 +272,7 @@ const App = () => {
 	});
 
 	useEnsureSystemMessage({
+		isReady: isTreeHydrated,
 		isTreeEmpty,
 		chatMessagesLength: chatMessages.length,
 		createSystemMessage,
@@ -155,19 +292,55 @@ const App = () => {
 	useEffect(() => {
 		if (view === "text" && providerKind === "built-in") {
 			toast.error("Built-in AI supports chat only");
+		} else if (view === "text" && providerKind === "replay") {
+			toast.error("Replay supports chat only");
 		}
 	}, [providerKind, view]);
 
 	const [isSettingsOpen, { open: onSettingsOpen, close: onSettingsClose }] =
 		useDisclosure();
+	const [isSearchOpen, { open: onSearchOpen, close: onSearchClose }] =
+		useDisclosure();
+	const [isExportOpen, { open: onExportOpen, close: onExportClose }] =
+		useDisclosure();
+	const activeConversation = conversations.find(
+		(entry) => entry.id === activeConversationId,
+	);
+	const [diagramFocus, setDiagramFocus] = useState<DiagramFocusRequest | null>(
+		null,
+	);
+
+	const handleSearchSelect = useCallback(
+		(nodeId: string) => {
+			activateThread(nodeId);
+			setDiagramFocus((previous) => ({
+				nodeId,
+				requestId: (previous?.requestId ?? 0) + 1,
+			}));
+			if (view === "text") {
+				setView("chat");
+			}
+			onSearchClose();
+		},
+		[activateThread, onSearchClose, view],
+	);
 
+	// Text fields keep their native undo; the text view has no tree to step.
+	useHotkeys([
+		["mod+Z", () => view !== "text" && undo()],
+		["mod+shift+Z", () => view !== "text" && redo()],
+		["mod+Y", () => view !== "text" && redo()],
+		["mod+K", onSearchOpen],
+	]);
+
+	// The conversation tree is autosaved, so only state that never reaches
+	// storage (drafts, in-flight generations, the text view) needs the guard.
 	const hasSessionState =
 		isGenerating ||
 		isPromptDirty ||
 		isTextGenerating ||
 		textContent.trim().length > 0 ||
-		typeof editingMessageId !== "undefined" ||
-		chatMessages.length > 1;
+		typeof editingMessageId !== "undefined";
 
 	useBeforeUnloadGuard(enableBeforeUnloadWarning && hasSessionState);
 
@@ -183,7 +356,49 @@ const App = () => {
 		resetComposerState();
 	}, [abortActiveStreams, cancel, resetComposerState]);
 
-	const isModelSelectionSupported =
+	const handleSelectConversation = useCallback(
+		(id: string) => {
+			if (id === activeConversationId) {
+				return;
+			}
+			handleImportPreparation();
+			void setActiveConversation(id);
+		},
+		[activeConversationId, handleImportPreparation, setActiveConversation],
+	);
+
+	const handleCreateConversation = useCallback(() => {
+		handleImportPreparation();
+		void createConversation();
+	}, [createConversation, handleImportPreparation]);
+
+	const handleDuplicateConversation = useCallback(
+		async (id: string) => {
+			try {
+				const duplicateId = await duplicateConversation(id);
+				if (duplicateId) {
+					handleSelectConversation(duplicateId);
+				}
+			} catch (error) {
+				console.error(error);
+				toast.error("Failed to duplicate conversation");
+			}
+		},
+		[duplicateConversation, handleSelectConversation],
+	);
+
+	const handleDeleteConversation = useCallback(
+		(id: string) => {
+			if (id === activeConversationId) {
+				handleImportPreparation();
+			}
+			void deleteConversation(id);
+		},
+		[activeConversationId, deleteConversation, handleImportPreparation],
+	);
+
+	const isModelSelectionSupported = providerKind !== "built-in";
+	const isCompletionSupported =
 		providerKind === "openai-compatible" || providerKind === "dummy";
 
 	return (
@@ -205,61 +420,138 @@ const App = () => {
 								: "Built-in AI (no model list)"
 						}
 						modelStatus={builtInStatusText}
+						providerKind={providerKind}
+						generationSettings={generationSettings}
+						onGenerationSettingsChange={handleGenerationSettingsChange}
+						onGenerationSettingsReset={() =>
+							handleGenerationSettingsChange(null)
+						}
 						view={view}
 						onViewChange={setView}
 						onClear={handleClearConversation}
+						onUndo={undo}
+						onRedo={redo}
+						onGoToHistoryEntry={goToHistoryEntry}
+						onOpenSearch={onSearchOpen}
 						onImport={triggerImport}
 						onExport={triggerExport}
+						onShare={onExportOpen}
 						onOpenSettings={onSettingsOpen}
+						isSidebarOpen={isSidebarOpen}
+						onToggleSidebar={toggleSidebar}
 					/>
-					{view === "chat" ? (
-						<div className="flex-1 min-h-0">
-							<ChatView
-								messages={chatMessages}
-								isGenerating={isGenerating}
-								editingMessageId={editingMessageId}
-								onSend={send}
-								onStop={stop}
-								onDeleteMessage={deleteMessage}
-								onDetachMessage={detachMessage}
-								onEditStart={startEdit}
-								onEditSubmit={submitEdit}
-								onEditCancel={cancelEdit}
-								onPromptDirtyChange={setIsPromptDirty}
-								resetSignal={resetSignal}
-								onTokenReroll={rerollFromToken}
+					<div className="flex flex-1 min-h-0">
+						{isSidebarOpen && (
+							<ConversationSidebar
+								conversations={conversations}
+								activeConversationId={activeConversationId}
+								onSelect={handleSelectConversation}
+								onCreate={handleCreateConversation}
+								onRename={(id, title) => {
+									void renameConversation(id, title);
+								}}
+								onDuplicate={(id) => {
+									void handleDuplicateConversation(id);
+								}}
+								onDelete={handleDeleteConversation}
 							/>
+						)}
+						<div className="flex flex-1 min-w-0 flex-col">
+							{view === "chat" ? (
+								<div className="flex-1 min-h-0">
+									<ChatView
+										messages={chatMessages}
+										isGenerating={isGenerating}
+										editingMessageId={editingMessageId}
+										onSend={send}
+										onRegenerate={regenerate}
+										onRetryFailed={retryFailed}
+										onContinue={continueReply}
+										onRunCode={runCode}
+										regenerateModels={
+											isModelSelectionSupported ? models : emptyModels
+										}
+										onStop={stop}
+										onDeleteMessage={deleteMessage}
+										onDetachMessage={detachMessage}
+										onEditStart={startEdit}
+										onEditSubmit={submitEdit}
+										onEditCancel={cancelEdit}
+										onPromptDirtyChange={setIsPromptDirty}
+										resetSignal={resetSignal}
+										siblingsByNode={siblingsByNode}
+										onSelectSibling={selectSibling}
+										onStarChange={setStarred}
+										onRankChange={setRank}
+										candidates={candidateMessages}
+										onPickCandidate={selectSibling}
+										onStopCandidate={stopStream}
+										providers={providers}
+										comparisonTargets={comparisonTargets}
+										onComparisonTargetsChange={(targets) => {
+											void setComparisonTargets(targets);
+										}}
+										onTokenReroll={rerollFromToken}
+										enteredContextLength={getEnteredContextLength(
+											activeProvider,
+											activeModel,
+										)}
+										reportedContextLength={reportedContextLength}
+										reservedTokens={generationSettings.maxOutputTokens}
+										onContextLengthChange={handleContextLengthChange}
+										truncationStrategy={truncation.strategy}
+										onPreviewContext={previewContext}
+									/>
+								</div>
+							) : view === "diagram" ? (
+								<div className="flex-1 overflow-hidden px-2 py-2">
+									<DiagramView
+										onNodeDoubleClick={activateThread}
+										onSetActiveNode={activateThread}
+										onDuplicateFromNode={duplicateFromNode}
+										focusRequest={diagramFocus}
+									/>
+								</div>
+							) : (
+								<TextCompletionView
+									value={textContent}
+									isGenerating={isTextGenerating}
+									isPredictDisabled={!isCompletionSupported}
+									disabledReason={
+										providerKind === "built-in"
+											? "Built-in AI supports chat only"
+											: providerKind === "replay"
+												? "Replay supports chat only"
+												: undefined
+									}
+									onChange={(value) => {
+										overwriteTextContent(value);
+									}}
+									onPredict={predict}
+									onCancel={cancel}
+									tokenLogprobs={textTokenLogprobs}
+									onTokenReroll={rerollTextFromToken}
+									showTokenOverlay
+									generatedPrefix={textSeed}
+								/>
+							)}
 						</div>
-					) : view === "diagram" ? (
-						<div className="flex-1 overflow-hidden px-2 py-2">
-							<DiagramView
-								onNodeDoubleClick={activateThread}
-								onSetActiveNode={activateThread}
-								onDuplicateFromNode={duplicateFromNode}
-							/>
-						</div>
-					) : (
-						<TextCompletionView
-							value={textContent}
-							isGenerating={isTextGenerating}
-							isPredictDisabled={!isModelSelectionSupported}
-							disabledReason={
-								!isModelSelectionSupported
-									? "Built-in AI supports chat only"
-									: undefined
-							}
-							onChange={(value) => {
-								overwriteTextContent(value);
-							}}
-							onPredict={predict}
-							onCancel={cancel}
-							tokenLogprobs={textTokenLogprobs}
-							onTokenReroll={rerollTextFromToken}
-							showTokenOverlay
-							generatedPrefix={textSeed}
-						/>
-					)}
+					</div>
 					<SettingsModal open={isSettingsOpen} onClose={onSettingsClose} />
+					<ExportModal
+						opened={isExportOpen}
+						onClose={onExportClose}
+						title={
+							activeConversation?.title ||
+							activeConversation?.preview ||
+							"Conversation"
+						}
+					/>
+					<SearchPanel
+						opened={isSearchOpen}
+						onClose={onSearchClose}
+						onSelect={handleSearchSelect}
+					/>
 					<Toaster />
 				</div>
 			)}
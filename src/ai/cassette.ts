@@ -0,0 +1,172 @@
+import type { ModelInfo } from "../types";
+import type { StreamPart } from "./streamUtils";
+
+export const CASSETTE_VERSION = 1;
+
+export const REPLAY_PROVIDER_NAME = "replay";
+
+export type ReplayTiming = "original" | "fixed";
+
+export interface CassetteEntry {
+	/** Milliseconds between the start of the request and this part. */
+	at: number;
+	part: StreamPart;
+}
+
+/**
+ * A recorded `fullStream`, raw chunks included, so a run can be played back
+ * through `processFullStream` without the server.
+ */
+export interface Cassette {
+	version: typeof CASSETTE_VERSION;
+	recordedAt: string;
+	modelId: string;
+	mode: "chat" | "completion";
+	entries: CassetteEntry[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Errors do not survive JSON, so only their message is kept.
+const toRecordablePart = (part: StreamPart): StreamPart => {
+	if (part.type === "error") {
+		return {
+			type: "error",
+			error:
+				part.error instanceof Error ? part.error.message : String(part.error),
+		};
+	}
+	return JSON.parse(JSON.stringify(part)) as StreamPart;
+};
+
+/**
+ * Passes `stream` through unchanged while recording it. `onRecorded` runs once
+ * the stream ends, fails or is abandoned, so partial runs are kept too.
+ */
+export async function* recordStream<T extends StreamPart>(
+	stream: AsyncIterable<T>,
+	{ modelId, mode }: Pick<Cassette, "modelId" | "mode">,
+	onRecorded: (cassette: Cassette) => void,
+): AsyncGenerator<T> {
+	const startedAt = Date.now();
+	const entries: CassetteEntry[] = [];
+	try {
+		for await (const part of stream) {
+			entries.push({
+				at: Date.now() - startedAt,
+				part: toRecordablePart(part),
+			});
+			yield part;
+		}
+	} finally {
+		onRecorded({
+			version: CASSETTE_VERSION,
+			recordedAt: new Date(startedAt).toISOString(),
+			modelId,
+			mode,
+			entries,
+		});
+	}
+}
+
+const abortError = (signal: AbortSignal) =>
+	signal.reason ?? new DOMException("Aborted", "AbortError");
+
+const sleepUnlessAborted = (ms: number, signal?: AbortSignal) =>
+	new Promise<void>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(abortError(signal));
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(abortError(signal as AbortSignal));
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+
+const isDeltaPart = (part: StreamPart) =>
+	part.type === "text-delta" || part.type === "reasoning-delta";
+
+/**
+ * Plays a cassette back. Without `tokensPerSecond` the recorded gaps are kept;
+ * with it, every text or reasoning delta waits a fixed interval instead.
+ */
+export async function* replayCassette(
+	cassette: Cassette,
+	{
+		tokensPerSecond,
+		abortSignal,
+	}: { tokensPerSecond?: number; abortSignal?: AbortSignal } = {},
+): AsyncGenerator<StreamPart> {
+	const startedAt = Date.now();
+	const fixedDelay =
+		tokensPerSecond && tokensPerSecond > 0 ? 1000 / tokensPerSecond : undefined;
+	for (const entry of cassette.entries) {
+		const wait =
+			fixedDelay === undefined
+				? entry.at - (Date.now() - startedAt)
+				: isDeltaPart(entry.part)
+					? fixedDelay
+					: 0;
+		if (wait > 0) {
+			await sleepUnlessAborted(wait, abortSignal);
+		} else if (abortSignal?.aborted) {
+			throw abortError(abortSignal);
+		}
+		yield entry.part;
+	}
+}
+
+export const parseCassette = (text: string): Cassette => {
+	const parsed: unknown = JSON.parse(text);
+	if (
+		!isRecord(parsed) ||
+		parsed.version !== CASSETTE_VERSION ||
+		!Array.isArray(parsed.entries)
+	) {
+		throw new Error("Not a cassette file");
+	}
+	if (typeof parsed.modelId !== "string") {
+		throw new Error("Cassette has no model id");
+	}
+	if (parsed.mode !== "chat" && parsed.mode !== "completion") {
+		throw new Error('Cassette mode must be "chat" or "completion"');
+	}
+	parsed.entries.forEach((entry, index) => {
+		if (
+			!isRecord(entry) ||
+			typeof entry.at !== "number" ||
+			!isRecord(entry.part) ||
+			typeof entry.part.type !== "string"
+		) {
+			throw new Error(`Entry ${index + 1} is not a recorded stream part`);
+		}
+	});
+	return parsed as unknown as Cassette;
+};
+
+/** The single model a replay provider offers: the one that was recorded. */
+export const listCassetteModels = (text: string | undefined): ModelInfo[] => {
+	if (!text) {
+		return [];
+	}
+	try {
+		const { modelId } = parseCassette(text);
+		return [
+			{
+				id: modelId,
+				name: `${modelId} (replay)`,
+				owned_by: REPLAY_PROVIDER_NAME,
+				object: "model",
+			},
+		];
+	} catch {
+		return [];
+	}
+};
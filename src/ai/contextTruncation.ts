@@ -0,0 +1,269 @@
+import { type LanguageModel, generateText } from "ai";
+import type {
+	Message,
+	MessageContent,
+	TruncationSettings,
+	TruncationStrategy,
+} from "../types";
+import { estimateMessageTokens } from "./contextWindow";
+
+export const DEFAULT_TRUNCATION: TruncationSettings = {
+	strategy: "none",
+	windowTurns: 10,
+};
+
+export const TRUNCATION_STRATEGY_LABELS: Record<TruncationStrategy, string> = {
+	none: "Send the full path",
+	"drop-oldest": "Drop the oldest turns",
+	"sliding-window": "Keep the last N turns",
+	summarize: "Summarize older turns",
+};
+
+// Upper bound for a summary, kept free in the window next to the reply.
+const SUMMARY_MAX_TOKENS = 512;
+
+const SUMMARY_INSTRUCTIONS =
+	"Summarize the conversation below so it can continue without it. Keep names, facts, decisions, open questions and any instructions given to the assistant. Answer with the summary only.";
+
+/** The context actually sent, and what was left out of it. */
+export interface TrimmedContext {
+	messages: Message[];
+	/** Messages of the path that were dropped or folded into the summary. */
+	dropped: Message[];
+	summary?: string;
+}
+
+export interface TruncationOptions {
+	settings: TruncationSettings;
+	contextLength?: number;
+	/** Max output tokens, kept free for the reply. */
+	reservedTokens?: number;
+	/** Writes the summary for the summarize strategy; without it turns are dropped. */
+	summarize?: (
+		messages: Message[],
+		abortSignal: AbortSignal,
+	) => Promise<string>;
+	/** Stops waiting for the summary; it is only cancelled once nobody waits. */
+	abortSignal?: AbortSignal;
+}
+
+const toText = (content: MessageContent) =>
+	typeof content === "string"
+		? content
+		: content
+				.map((part) => (part.type === "text" ? part.text : "[image]"))
+				.join("\n\n");
+
+/**
+ * Splits a path into its leading system messages and turns. A turn starts at
+ * a user message, so tool calls always stay together with their results.
+ */
+const splitTurns = (messages: Message[]) => {
+	const firstOther = messages.findIndex((message) => message.role !== "system");
+	const head = firstOther === -1 ? messages : messages.slice(0, firstOther);
+	const turns: Message[][] = [];
+	for (const message of firstOther === -1 ? [] : messages.slice(firstOther)) {
+		const current = turns[turns.length - 1];
+		if (!current || message.role === "user") {
+			turns.push([message]);
+		} else {
+			current.push(message);
+		}
+	}
+	return { head, turns };
+};
+
+const sumTokens = (messages: Message[]) =>
+	messages.reduce(
+		(total, message) => total + estimateMessageTokens(message),
+		0,
+	);
+
+/**
+ * How many leading turns must go for the path to fit. The latest turn is
+ * always kept, even if it does not fit on its own. Counts every message
+ * rather than anchoring on a reply's recorded usage, which only covers the
+ * prompt that was actually sent and so misses turns an earlier send dropped.
+ */
+const countTurnsToDrop = (
+	messages: Message[],
+	turns: Message[][],
+	budget: number,
+) => {
+	let total = sumTokens(messages);
+	let count = 0;
+	while (total > budget && count < turns.length - 1) {
+		total -= sumTokens(turns[count] ?? []);
+		count++;
+	}
+	return count;
+};
+
+interface SharedSummary {
+	summary: Promise<string>;
+	controller: AbortController;
+	/** Requests still waiting for a pending summary. */
+	waiting: number;
+}
+
+// Summaries are reused while the summarized messages stay the same, so a
+// previewed context and the request sent right after it match. Pending
+// summaries are shared too, so parallel samples ask for one between them.
+const summaryCache = new Map<string, SharedSummary>();
+
+// Enough for the branches of a few conversations; the oldest entry goes first.
+const SUMMARY_CACHE_LIMIT = 32;
+
+const shareSummary = (
+	key: string,
+	create: (abortSignal: AbortSignal) => Promise<string>,
+	abortSignal?: AbortSignal,
+) => {
+	let entry = summaryCache.get(key);
+	if (entry) {
+		summaryCache.delete(key);
+	} else {
+		const controller = new AbortController();
+		const created: SharedSummary = {
+			summary: create(controller.signal),
+			controller,
+			waiting: 0,
+		};
+		// A failed summary is asked for again on the next send.
+		created.summary.catch(() => {
+			if (summaryCache.get(key) === created) {
+				summaryCache.delete(key);
+			}
+		});
+		entry = created;
+	}
+	summaryCache.set(key, entry);
+	for (const oldest of summaryCache.keys()) {
+		if (summaryCache.size <= SUMMARY_CACHE_LIMIT) {
+			break;
+		}
+		summaryCache.delete(oldest);
+	}
+	const shared = entry;
+	if (abortSignal?.aborted) {
+		return Promise.reject(abortSignal.reason);
+	}
+	shared.waiting++;
+	return new Promise<string>((resolve, reject) => {
+		let done = false;
+		const leave = () => {
+			if (done) {
+				return false;
+			}
+			done = true;
+			shared.waiting--;
+			abortSignal?.removeEventListener("abort", handleAbort);
+			return true;
+		};
+		// Only the last request to stop cancels the summary for everyone.
+		const handleAbort = () => {
+			if (!leave()) {
+				return;
+			}
+			if (shared.waiting === 0) {
+				shared.controller.abort();
+				if (summaryCache.get(key) === shared) {
+					summaryCache.delete(key);
+				}
+			}
+			reject(abortSignal?.reason);
+		};
+		abortSignal?.addEventListener("abort", handleAbort);
+		shared.summary.then(
+			(summary) => {
+				if (leave()) {
+					resolve(summary);
+				}
+			},
+			(error) => {
+				if (leave()) {
+					reject(error);
+				}
+			},
+		);
+	});
+};
+
+const summaryKey = (messages: Message[]) =>
+	messages.map((message) => message._metadata.uuid).join(",");
+
+const withSummary = (head: Message[], summary: string): Message[] => {
+	const text = `Summary of the earlier conversation:\n\n${summary}`;
+	const [system, ...rest] = head;
+	if (!system) {
+		return [{ role: "system", content: text, _metadata: { uuid: "summary" } }];
+	}
+	return [
+		{ ...system, content: `${toText(system.content)}\n\n${text}` },
+		...rest,
+	];
+};
+
+/** Applies the selected strategy to a compiled path. */
+export const truncateContext = async (
+	messages: Message[],
+	{
+		settings,
+		contextLength,
+		reservedTokens = 0,
+		summarize,
+		abortSignal,
+	}: TruncationOptions,
+): Promise<TrimmedContext> => {
+	const { head, turns } = splitTurns(messages);
+	const keepFrom = (count: number): TrimmedContext => ({
+		messages: [...head, ...turns.slice(count).flat()],
+		dropped: turns.slice(0, count).flat(),
+	});
+
+	if (settings.strategy === "sliding-window") {
+		return keepFrom(
+			Math.max(0, turns.length - Math.max(1, settings.windowTurns)),
+		);
+	}
+	if (settings.strategy === "none" || !contextLength) {
+		return { messages, dropped: [] };
+	}
+	const summarizer = settings.strategy === "summarize" ? summarize : undefined;
+	const budget =
+		contextLength - reservedTokens - (summarizer ? SUMMARY_MAX_TOKENS : 0);
+	const dropCount = countTurnsToDrop(messages, turns, budget);
+	const trimmed = keepFrom(dropCount);
+	if (!summarizer || trimmed.dropped.length === 0) {
+		return trimmed;
+	}
+	const summary = await shareSummary(
+		summaryKey(trimmed.dropped),
+		(signal) => summarizer(trimmed.dropped, signal),
+		abortSignal,
+	);
+	return {
+		messages: [...withSummary(head, summary), ...turns.slice(dropCount).flat()],
+		dropped: trimmed.dropped,
+		summary,
+	};
+};
+
+/** Asks `model` for a summary of `messages`, passed as one transcript. */
+export const summarizeMessages = async (
+	model: LanguageModel,
+	messages: Message[],
+	abortSignal?: AbortSignal,
+) => {
+	const transcript = messages
+		.map((message) => `${message.role}: ${toText(message.content)}`)
+		.join("\n\n");
+	const { text } = await generateText({
+		model,
+		system: SUMMARY_INSTRUCTIONS,
+		prompt: transcript,
+		maxOutputTokens: SUMMARY_MAX_TOKENS,
+		abortSignal,
+	});
+	return text.trim();
+};
@@ -0,0 +1,95 @@
+import type { Message, ModelInfo, ProviderEntry } from "../types";
+import { generationSettingsKey } from "./generationSettings";
+
+// Rough per-message cost of role markers and separators in chat templates.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// What a high-detail image costs OpenAI models; other servers vary widely.
+const IMAGE_TOKENS = 765;
+
+const isPositive = (value: unknown): value is number =>
+	typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/** The context window a server lists for the model, if any. */
+export const getReportedContextLength = (model: ModelInfo | undefined) =>
+	[model?.context_length, model?.max_model_len, model?.max_context_length].find(
+		isPositive,
+	);
+
+export const getEnteredContextLength = (
+	provider: ProviderEntry | undefined,
+	modelId: string | null | undefined,
+) => {
+	const entered = provider?.contextLengths?.[generationSettingsKey(modelId)];
+	return isPositive(entered) ? entered : undefined;
+};
+
+/** The user's value for this model wins over what the server reports. */
+export const resolveContextLength = (
+	provider: ProviderEntry | undefined,
+	modelId: string | null | undefined,
+) =>
+	getEnteredContextLength(provider, modelId) ??
+	getReportedContextLength(
+		provider?.models?.find((model) => model.id === modelId),
+	);
+
+/**
+ * About four characters per token for Latin text, and one per character for
+ * CJK scripts, which tokenizers split far more finely.
+ */
+export const estimateTextTokens = (text: string) => {
+	if (!text) {
+		return 0;
+	}
+	const wideChars =
+		text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g)
+			?.length ?? 0;
+	return Math.ceil((text.length - wideChars) / 4) + wideChars;
+};
+
+/** Tokens one message adds to a prompt. Reasoning is not sent back. */
+export const estimateMessageTokens = (message: Message) => {
+	const contentTokens =
+		typeof message.content === "string"
+			? estimateTextTokens(message.content)
+			: message.content.reduce(
+					(total, part) =>
+						total +
+						(part.type === "text"
+							? estimateTextTokens(part.text)
+							: IMAGE_TOKENS),
+					0,
+				);
+	const callTokens = (message.tool_calls ?? []).reduce(
+		(total, call) =>
+			total +
+			estimateTextTokens(call.toolName) +
+			estimateTextTokens(JSON.stringify(call.input) ?? ""),
+		0,
+	);
+	return MESSAGE_OVERHEAD_TOKENS + contentTokens + callTokens;
+};
+
+/**
+ * Tokens a path takes up as a prompt. The newest reply that recorded its input
+ * usage anchors the count, so only the messages from it onwards are guessed.
+ */
+export const estimatePathTokens = (messages: Message[]) => {
+	let anchorIndex = -1;
+	let anchorTokens = 0;
+	for (let index = messages.length - 1; index >= 0; index--) {
+		const inputTokens =
+			messages[index]?._metadata.generation?.usage?.inputTokens;
+		if (isPositive(inputTokens)) {
+			anchorIndex = index;
+			anchorTokens = inputTokens;
+			break;
+		}
+	}
+	return messages
+		.slice(Math.max(0, anchorIndex))
+		.reduce(
+			(total, message) => total + estimateMessageTokens(message),
+			anchorTokens,
+		);
+};
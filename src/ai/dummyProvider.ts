@@ -4,14 +4,21 @@ import type {
 	LanguageModelV2CallOptions,
 	LanguageModelV2CallWarning,
 	LanguageModelV2Content,
+	LanguageModelV2FunctionTool,
 	LanguageModelV2Prompt,
 	LanguageModelV2StreamPart,
 	LanguageModelV2Usage,
 	ProviderV2,
 } from "@ai-sdk/provider";
-import { NoSuchModelError } from "@ai-sdk/provider";
+import { APICallError, NoSuchModelError } from "@ai-sdk/provider";
 import { generateId } from "@ai-sdk/provider-utils";
-import type { ModelInfo, TokenLogprob } from "../types";
+import type { DummyFaults, ModelInfo, TokenLogprob } from "../types";
+import {
+	DEFAULT_DUMMY_SCRIPT,
+	type DummyScriptFinishReason,
+	type DummyScriptStep,
+	parseDummyScript,
+} from "./dummyScript";
 
 export const DUMMY_PROVIDER_NAME = "dummy";
 
@@ -59,6 +66,9 @@ const FAKE_ALTERNATIVES_POOL = [
 	"?",
 ] as const;
 
+// Small enough that the context meter fills up in a short test conversation.
+const DUMMY_CONTEXT_LENGTH = 8192;
+
 const DUMMY_MODELS = [
 	{
 		id: "markdown-stress-tester",
@@ -96,12 +106,27 @@ const DUMMY_MODELS = [
 		description:
 			"Generates random word sequences with varied probabilities. Best for testing token rerolls.",
 	},
+	{
+		id: "tool-caller",
+		name: "Tool Caller",
+		description:
+			"Calls the enabled tools with arguments taken from the prompt, then reports their results on the next turn.",
+	},
+	{
+		id: "scripted",
+		name: "Scripted",
+		description:
+			"Plays the script saved on the provider entry: text, reasoning, delays, errors and the finish reason.",
+	},
 ] as const;
 
 type DummyModelId = (typeof DUMMY_MODELS)[number]["id"];
 
 export interface DummyProviderSettings {
 	tokensPerSecond?: number;
+	/** JSON steps played by the `scripted` model. */
+	script?: string;
+	faults?: DummyFaults;
 }
 
 type DummyProvider = ProviderV2 & {
@@ -440,6 +465,263 @@ const extractSingleUserPromptText = (prompt: LanguageModelV2Prompt) => {
 		.join("");
 };
 
+type DummyToolCall = {
+	toolCallId: string;
+	toolName: string;
+	input: string;
+};
+
+const extractTrailingToolResults = (prompt: LanguageModelV2Prompt) => {
+	const results: Array<{ toolName: string; text: string; isError: boolean }> =
+		[];
+	// The reply being generated is usually the last, still empty message.
+	const end =
+		extractTrailingAssistantText(prompt) === ""
+			? prompt.length - 1
+			: prompt.length;
+	for (let index = end - 1; index >= 0; index -= 1) {
+		const message = prompt[index];
+		if (!message || message.role !== "tool") {
+			break;
+		}
+		const parts = message.content.map((part) => {
+			const { output } = part;
+			const text =
+				output.type === "text" || output.type === "error-text"
+					? output.value
+					: output.type === "content"
+						? output.value
+								.map((item) => (item.type === "text" ? item.text : ""))
+								.join("")
+						: JSON.stringify(output.value, null, 2);
+			return {
+				toolName: part.toolName,
+				text,
+				isError: output.type === "error-text" || output.type === "error-json",
+			};
+		});
+		results.unshift(...parts);
+	}
+	return results;
+};
+
+const extractCodeBlock = (text: string) =>
+	text.match(/```(?:js|javascript)?[^\n]*\n([\s\S]*?)```/)?.[1]?.trim();
+
+const extractArithmetic = (text: string) =>
+	text.match(/-?\d[\d\s.+\-*/%()]*[+\-*/%][\d\s.+\-*/%()]*\d\)?/)?.[0]?.trim();
+
+/**
+ * Fills every property of a tool's JSON Schema from the prompt: numbers from
+ * the digits in it, strings from quoted phrases (or the whole prompt), enums
+ * from their first value. The same prompt always yields the same arguments.
+ */
+const buildToolArguments = (
+	schema: LanguageModelV2FunctionTool["inputSchema"],
+	text: string,
+) => {
+	const numbers = (text.match(/-?\d+(?:\.\d+)?/g) ?? []).map(Number);
+	const quoted = Array.from(
+		text.matchAll(/"([^"]+)"|'([^']+)'/g),
+		(match) => match[1] ?? match[2] ?? "",
+	);
+	let numberIndex = 0;
+	let quotedIndex = 0;
+	const args: Record<string, unknown> = {};
+	for (const [key, definition] of Object.entries(schema.properties ?? {})) {
+		if (!isRecord(definition)) {
+			continue;
+		}
+		if (Array.isArray(definition.enum) && definition.enum.length > 0) {
+			args[key] = definition.enum[0];
+			continue;
+		}
+		const type = Array.isArray(definition.type)
+			? definition.type[0]
+			: definition.type;
+		if (type === "number" || type === "integer") {
+			const value = numbers[numberIndex] ?? 0;
+			numberIndex += 1;
+			args[key] = type === "integer" ? Math.round(value) : value;
+		} else if (type === "boolean") {
+			args[key] = true;
+		} else if (type === "array") {
+			args[key] = [];
+		} else if (type === "object") {
+			args[key] = {};
+		} else {
+			args[key] = quoted[quotedIndex] ?? text;
+			quotedIndex += 1;
+		}
+	}
+	return args;
+};
+
+/**
+ * Sleeps that reject as soon as `abortSignal` fires. Call `dispose` once the
+ * stream is done so the listener is removed.
+ */
+const createAbortableSleep = (abortSignal?: AbortSignal) => {
+	const abortError = () =>
+		abortSignal?.reason ?? new DOMException("Aborted", "AbortError");
+
+	let abortListener: (() => void) | undefined;
+	const abortPromise = abortSignal
+		? new Promise<never>((_, reject) => {
+				abortListener = () => reject(abortError());
+				if (abortSignal.aborted) {
+					reject(abortError());
+					return;
+				}
+				abortSignal.addEventListener("abort", abortListener, {
+					once: true,
+				});
+			})
+		: null;
+	// Prevent unhandled rejections if the stream completes before we ever await `abortPromise`.
+	void abortPromise?.catch(() => {});
+
+	return {
+		abortError,
+		sleepOrAbort: async (ms: number) => {
+			if (ms <= 0) {
+				return;
+			}
+			if (abortPromise) {
+				await Promise.race([sleep(ms), abortPromise]);
+				return;
+			}
+			await sleep(ms);
+		},
+		dispose: () => {
+			if (abortSignal && abortListener) {
+				abortSignal.removeEventListener("abort", abortListener);
+			}
+		},
+	};
+};
+
+const toScriptTokenLogprob = (
+	step: Extract<DummyScriptStep, { type: "text" | "reasoning" }>,
+): TokenLogprob => {
+	const alternatives = step.alternatives?.length
+		? [...step.alternatives].sort((a, b) => b.probability - a.probability)
+		: [{ token: step.text, probability: step.probability ?? 1 }];
+	return {
+		token: step.text,
+		probability:
+			step.probability ??
+			alternatives.find((entry) => entry.token === step.text)?.probability,
+		segment: step.type === "reasoning" ? "reasoning" : "content",
+		alternatives,
+	};
+};
+
+// Valid JSON, but nothing like the `TokenLogprob[]` consumers expect.
+const MALFORMED_LOGPROB_METADATA = {
+	[DUMMY_PROVIDER_NAME]: {
+		tokenLogprobs: [{ token: null, probability: "high", alternatives: {} }],
+	},
+};
+
+const createStartFault = (status: number, modelId: string) =>
+	new APICallError({
+		message: `Dummy fault: HTTP ${status}`,
+		url: `dummy://${modelId}`,
+		requestBodyValues: {},
+		statusCode: status,
+		responseBody: JSON.stringify({
+			error: { message: `Injected ${status} response` },
+		}),
+	});
+
+/**
+ * Applies the stream faults. Deltas are counted across text and reasoning;
+ * a reply shorter than a threshold triggers the fault where it would finish.
+ */
+const injectStreamFaults = (
+	stream: ReadableStream<LanguageModelV2StreamPart>,
+	faults: DummyFaults,
+	abortSignal?: AbortSignal,
+) => {
+	let deltaCount = 0;
+	const reached = (limit: number | undefined, isFinish: boolean) =>
+		limit !== undefined && (isFinish || deltaCount >= limit);
+
+	return stream.pipeThrough(
+		new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+			transform: async (part, controller) => {
+				const isDelta =
+					part.type === "text-delta" || part.type === "reasoning-delta";
+				const isFinish = part.type === "finish";
+				if (!isDelta && !isFinish) {
+					controller.enqueue(part);
+					return;
+				}
+				if (reached(faults.failAfterTokens, isFinish)) {
+					// Raised the way fetch reports a dropped connection.
+					controller.enqueue({
+						type: "error",
+						error: new TypeError(
+							`Dummy fault: stream failed after ${deltaCount} tokens`,
+						),
+					});
+					controller.terminate();
+					return;
+				}
+				if (reached(faults.stallAfterTokens, isFinish)) {
+					// Holds the stream open until the request is aborted.
+					await new Promise<never>((_, reject) => {
+						const abort = () =>
+							reject(
+								abortSignal?.reason ??
+									new DOMException("Aborted", "AbortError"),
+							);
+						if (abortSignal?.aborted) {
+							abort();
+							return;
+						}
+						abortSignal?.addEventListener("abort", abort, { once: true });
+					});
+				}
+				if (reached(faults.truncateAfterTokens, isFinish)) {
+					if (isDelta) {
+						controller.enqueue({
+							type: part.type === "text-delta" ? "text-end" : "reasoning-end",
+							id: part.id,
+						});
+					}
+					controller.enqueue({
+						type: "finish",
+						finishReason: faults.finishReason ?? "length",
+						usage: {
+							inputTokens: undefined,
+							outputTokens: deltaCount,
+							totalTokens: undefined,
+						},
+					});
+					controller.terminate();
+					return;
+				}
+				if (part.type === "finish") {
+					controller.enqueue(
+						faults.finishReason
+							? { ...part, finishReason: faults.finishReason }
+							: part,
+					);
+					return;
+				}
+				deltaCount += 1;
+				controller.enqueue(
+					faults.malformedLogprobs
+						? { ...part, providerMetadata: MALFORMED_LOGPROB_METADATA }
+						: part,
+				);
+			},
+		}),
+	);
+};
+
 /**
  * Split text into word-based chunks for more natural tokenization.
  * Each word (with trailing whitespace) becomes a token.
@@ -467,6 +749,8 @@ class DummyLanguageModel implements LanguageModelV2 {
 	private readonly callMode: "chat" | "completion";
 
 	private readonly tokensPerSecond: number;
+	private readonly script?: string;
+	private readonly faults?: DummyFaults;
 	private readonly idGenerator: () => string;
 
 	constructor(
@@ -478,13 +762,22 @@ class DummyLanguageModel implements LanguageModelV2 {
 		this.modelId = modelId;
 		this.callMode = callMode;
 		this.tokensPerSecond = clampTokensPerSecond(settings.tokensPerSecond);
+		this.script = settings.script;
+		this.faults = settings.faults;
 		this.idGenerator = idGenerator;
 	}
 
 	async doGenerate(options: LanguageModelV2CallOptions) {
+		this.throwStartFault();
+		if (this.modelId === "scripted") {
+			return this.generateScript(options);
+		}
 		const { prompt } = options;
 		const warnings = this.buildWarnings(options);
-		const { contentText, reasoningText } = this.buildResponseParts(prompt);
+		const { contentText, reasoningText, toolCalls } = this.buildResponseParts(
+			prompt,
+			options.tools,
+		);
 		const usage = this.buildUsage(prompt, contentText, reasoningText);
 		const content: LanguageModelV2Content[] = [];
 		if (reasoningText) {
@@ -493,10 +786,14 @@ class DummyLanguageModel implements LanguageModelV2 {
 		if (contentText) {
 			content.push({ type: "text", text: contentText });
 		}
+		for (const call of toolCalls) {
+			content.push({ type: "tool-call", ...call });
+		}
 
 		return {
 			content,
-			finishReason: "stop" as const,
+			finishReason:
+				toolCalls.length > 0 ? ("tool-calls" as const) : ("stop" as const),
 			usage,
 			warnings,
 			request: { body: { modelId: this.modelId } },
@@ -505,9 +802,32 @@ class DummyLanguageModel implements LanguageModelV2 {
 	}
 
 	async doStream(options: LanguageModelV2CallOptions) {
+		this.throwStartFault();
+		const { stream } =
+			this.modelId === "scripted"
+				? this.streamScript(options)
+				: this.streamResponse(options);
+		return {
+			stream: this.faults
+				? injectStreamFaults(stream, this.faults, options.abortSignal)
+				: stream,
+		};
+	}
+
+	private throwStartFault() {
+		const status = this.faults?.failBeforeStartStatus;
+		if (status !== undefined) {
+			throw createStartFault(status, this.modelId);
+		}
+	}
+
+	private streamResponse(options: LanguageModelV2CallOptions) {
 		const { prompt, abortSignal } = options;
 		const warnings = this.buildWarnings(options);
-		const { contentText, reasoningText } = this.buildResponseParts(prompt);
+		const { contentText, reasoningText, toolCalls } = this.buildResponseParts(
+			prompt,
+			options.tools,
+		);
 		const usage = this.buildUsage(prompt, contentText, reasoningText);
 		const { logprobSeed, tokenIndexOffset } = readDummyProviderOptions(
 			options.providerOptions,
@@ -531,24 +851,9 @@ class DummyLanguageModel implements LanguageModelV2 {
 
 		const stream = new ReadableStream<LanguageModelV2StreamPart>({
 			start: async (controller) => {
-				const abortError = () =>
-					abortSignal?.reason ?? new DOMException("Aborted", "AbortError");
-
-				let abortListener: (() => void) | undefined;
-				const abortPromise = abortSignal
-					? new Promise<never>((_, reject) => {
-							abortListener = () => reject(abortError());
-							if (abortSignal.aborted) {
-								reject(abortError());
-								return;
-							}
-							abortSignal.addEventListener("abort", abortListener, {
-								once: true,
-							});
-						})
-					: null;
-				// Prevent unhandled rejections if the stream completes before we ever await `abortPromise`.
-				void abortPromise?.catch(() => {});
+				const abortable = createAbortableSleep(abortSignal);
+				const { abortError } = abortable;
+				const sleepOrAbort = () => abortable.sleepOrAbort(delay);
 
 				try {
 					if (abortSignal?.aborted) {
@@ -558,17 +863,6 @@ class DummyLanguageModel implements LanguageModelV2 {
 
 					controller.enqueue({ type: "stream-start", warnings });
 
-					const sleepOrAbort = async () => {
-						if (delay <= 0) {
-							return;
-						}
-						if (abortPromise) {
-							await Promise.race([sleep(delay), abortPromise]);
-							return;
-						}
-						await sleep(delay);
-					};
-
 					if (reasoningId) {
 						controller.enqueue({ type: "reasoning-start", id: reasoningId });
 						for (const chunk of reasoningChunks) {
@@ -618,18 +912,185 @@ class DummyLanguageModel implements LanguageModelV2 {
 					}
 
 					controller.enqueue({ type: "text-end", id: textId });
+					for (const call of toolCalls) {
+						controller.enqueue({
+							type: "tool-input-start",
+							id: call.toolCallId,
+							toolName: call.toolName,
+						});
+						controller.enqueue({
+							type: "tool-input-delta",
+							id: call.toolCallId,
+							delta: call.input,
+						});
+						controller.enqueue({ type: "tool-input-end", id: call.toolCallId });
+						controller.enqueue({ type: "tool-call", ...call });
+						await sleepOrAbort();
+					}
 					controller.enqueue({
 						type: "finish",
-						finishReason: "stop" as const,
+						finishReason: toolCalls.length > 0 ? "tool-calls" : "stop",
 						usage,
 					});
 					controller.close();
 				} catch (error) {
 					controller.error(error);
 				} finally {
-					if (abortSignal && abortListener) {
-						abortSignal.removeEventListener("abort", abortListener);
+					abortable.dispose();
+				}
+			},
+		});
+
+		return { stream };
+	}
+
+	private readScript() {
+		return parseDummyScript(this.script?.trim() || DEFAULT_DUMMY_SCRIPT);
+	}
+
+	private generateScript(options: LanguageModelV2CallOptions) {
+		const steps = this.readScript();
+		let contentText = "";
+		let reasoningText = "";
+		let finishReason: DummyScriptFinishReason = "stop";
+		for (const step of steps) {
+			if (step.type === "text") {
+				contentText += step.text;
+			} else if (step.type === "reasoning") {
+				reasoningText += step.text;
+			} else if (step.type === "error") {
+				throw new Error(step.message);
+			} else if (step.type === "finish") {
+				finishReason = step.reason;
+			}
+		}
+		const content: LanguageModelV2Content[] = [];
+		if (reasoningText) {
+			content.push({ type: "reasoning", text: reasoningText });
+		}
+		if (contentText) {
+			content.push({ type: "text", text: contentText });
+		}
+		return {
+			content,
+			finishReason,
+			usage: this.buildUsage(options.prompt, contentText, reasoningText),
+			warnings: this.buildWarnings(options),
+			request: { body: { modelId: this.modelId } },
+			response: { body: { content: contentText, reasoning: reasoningText } },
+		};
+	}
+
+	/**
+	 * Emits each step of the script as its own delta. Steps run back to back;
+	 * only `delay` steps pause, so the output does not depend on the speed
+	 * setting.
+	 */
+	private streamScript(options: LanguageModelV2CallOptions) {
+		const { prompt, abortSignal } = options;
+		const warnings = this.buildWarnings(options);
+		const idGenerator = this.idGenerator;
+
+		const stream = new ReadableStream<LanguageModelV2StreamPart>({
+			start: async (controller) => {
+				const abortable = createAbortableSleep(abortSignal);
+				// Widened so the reassignments inside `closeOpenPart` are not narrowed away.
+				let openPart = null as {
+					type: "text" | "reasoning";
+					id: string;
+				} | null;
+				let contentText = "";
+				let reasoningText = "";
+				const closeOpenPart = () => {
+					if (openPart) {
+						controller.enqueue({
+							type: openPart.type === "text" ? "text-end" : "reasoning-end",
+							id: openPart.id,
+						});
+						openPart = null;
+					}
+				};
+
+				try {
+					if (abortSignal?.aborted) {
+						controller.error(abortable.abortError());
+						return;
+					}
+					controller.enqueue({ type: "stream-start", warnings });
+
+					let steps: DummyScriptStep[];
+					try {
+						steps = this.readScript();
+					} catch (error) {
+						controller.enqueue({
+							type: "error",
+							error: new Error(
+								`Invalid dummy script. ${error instanceof Error ? error.message : String(error)}`,
+							),
+						});
+						controller.close();
+						return;
+					}
+
+					for (const step of steps) {
+						if (abortSignal?.aborted) {
+							throw abortable.abortError();
+						}
+						switch (step.type) {
+							case "text":
+							case "reasoning": {
+								if (openPart?.type !== step.type) {
+									closeOpenPart();
+									openPart = { type: step.type, id: idGenerator() };
+									controller.enqueue({
+										type:
+											step.type === "text" ? "text-start" : "reasoning-start",
+										id: openPart.id,
+									});
+								}
+								if (step.type === "text") {
+									contentText += step.text;
+								} else {
+									reasoningText += step.text;
+								}
+								controller.enqueue({
+									type: step.type === "text" ? "text-delta" : "reasoning-delta",
+									id: openPart.id,
+									delta: step.text,
+									providerMetadata: toDummyProviderMetadata([
+										toScriptTokenLogprob(step),
+									]),
+								});
+								break;
+							}
+							case "delay":
+								await abortable.sleepOrAbort(step.ms);
+								break;
+							case "error":
+								closeOpenPart();
+								controller.enqueue({
+									type: "error",
+									error: new Error(step.message),
+								});
+								controller.close();
+								return;
+							case "finish":
+								break;
+						}
 					}
+
+					closeOpenPart();
+					const finish = steps.at(-1);
+					controller.enqueue({
+						type: "finish",
+						finishReason: finish?.type === "finish" ? finish.reason : "stop",
+						usage: this.buildUsage(prompt, contentText, reasoningText),
+					});
+					controller.close();
+				} catch (error) {
+					controller.error(error);
+				} finally {
+					abortable.dispose();
 				}
 			},
 		});
@@ -640,7 +1101,7 @@ class DummyLanguageModel implements LanguageModelV2 {
 	private buildWarnings(options: LanguageModelV2CallOptions) {
 		const warnings: LanguageModelV2CallWarning[] = [];
 
-		if (options.tools?.length) {
+		if (options.tools?.length && this.modelId !== "tool-caller") {
 			for (const tool of options.tools) {
 				warnings.push({
 					type: "unsupported-tool",
@@ -763,6 +1224,9 @@ class DummyLanguageModel implements LanguageModelV2 {
 				return result;
 			}
 
+			case "tool-caller":
+				return "Enable a tool in Settings → Tools and mention it by name to see a tool call.";
+
 			default:
 				return "Dummy provider is ready.";
 		}
@@ -878,11 +1342,91 @@ class DummyLanguageModel implements LanguageModelV2 {
 		return { reasoningText, contentText: this.buildResponse(prompt) };
 	}
 
-	private buildResponseParts(prompt: LanguageModelV2Prompt) {
+	/**
+	 * Calls the tools named in the latest user message (or the first tool, or
+	 * `run_javascript` when the prompt holds code or arithmetic). Once results
+	 * are the last messages in the prompt, it reports them instead.
+	 */
+	private buildToolCallerResponse(
+		prompt: LanguageModelV2Prompt,
+		tools: LanguageModelV2CallOptions["tools"],
+	) {
+		const results = extractTrailingToolResults(prompt);
+		if (results.length > 0) {
+			const reports = results.map((result) =>
+				result.isError
+					? `\`${result.toolName}\` failed:\n\n\`\`\`\n${result.text}\n\`\`\``
+					: `\`${result.toolName}\` returned:\n\n\`\`\`\n${result.text}\n\`\`\``,
+			);
+			return {
+				contentText: ["Here is what the tools reported.", ...reports].join(
+					"\n\n",
+				),
+				toolCalls: [],
+			};
+		}
+
+		const functionTools = (tools ?? []).filter(
+			(tool): tool is LanguageModelV2FunctionTool => tool.type === "function",
+		);
+		if (this.callMode === "completion" || functionTools.length === 0) {
+			return { contentText: this.buildResponse(prompt), toolCalls: [] };
+		}
+
+		const latestUserText = extractLatestUserText(prompt);
+		const lowered = latestUserText.toLowerCase();
+		const javascriptTool = functionTools.find(
+			(tool) => tool.name === "run_javascript",
+		);
+		const code =
+			extractCodeBlock(latestUserText) ?? extractArithmetic(latestUserText);
+		const mentioned = functionTools.filter((tool) =>
+			lowered.includes(tool.name.toLowerCase()),
+		);
+		const selected =
+			mentioned.length > 0
+				? mentioned
+				: javascriptTool && code
+					? [javascriptTool]
+					: functionTools.slice(0, 1);
+
+		const toolCalls: DummyToolCall[] = selected.map((tool) => ({
+			toolCallId: this.idGenerator(),
+			toolName: tool.name,
+			input: JSON.stringify(
+				tool === javascriptTool
+					? {
+							code: code ?? `console.log(${JSON.stringify(latestUserText)});`,
+						}
+					: buildToolArguments(tool.inputSchema, latestUserText),
+			),
+		}));
+		const names = toolCalls.map((call) => `\`${call.toolName}\``).join(", ");
+		return { contentText: `Calling ${names}.`, toolCalls };
+	}
+
+	private buildResponseParts(
+		prompt: LanguageModelV2Prompt,
+		tools?: LanguageModelV2CallOptions["tools"],
+	) {
+		const noToolCalls: DummyToolCall[] = [];
 		if (this.modelId === "reasoning-stream") {
-			return this.buildReasoningStreamResponse(prompt);
+			return {
+				...this.buildReasoningStreamResponse(prompt),
+				toolCalls: noToolCalls,
+			};
+		}
+		if (this.modelId === "tool-caller") {
+			return {
+				reasoningText: "",
+				...this.buildToolCallerResponse(prompt, tools),
+			};
 		}
-		return { reasoningText: "", contentText: this.buildResponse(prompt) };
+		return {
+			reasoningText: "",
+			contentText: this.buildResponse(prompt),
+			toolCalls: noToolCalls,
+		};
 	}
 }
 
@@ -903,6 +1447,8 @@ export const createDummyProvider = (
 	const createModel = (modelId: string, callMode: "chat" | "completion") =>
 		new DummyLanguageModel(validateModelId(modelId), callMode, {
 			tokensPerSecond: settings.tokensPerSecond,
+			script: settings.script,
+			faults: settings.faults,
 		});
 
 	const provider = ((modelId: string) =>
@@ -935,4 +1481,5 @@ export const fetchDummyModels = async (): Promise<ModelInfo[]> =>
 		name: model.name,
 		owned_by: DUMMY_PROVIDER_NAME,
 		object: "model",
+		context_length: DUMMY_CONTEXT_LENGTH,
 	}));
@@ -0,0 +1,158 @@
+import type { TokenAlternative } from "../types";
+
+export const DUMMY_SCRIPT_FINISH_REASONS = [
+	"stop",
+	"length",
+	"content-filter",
+	"tool-calls",
+	"error",
+	"other",
+] as const;
+
+export type DummyScriptFinishReason =
+	(typeof DUMMY_SCRIPT_FINISH_REASONS)[number];
+
+export type DummyScriptStep =
+	| {
+			type: "text" | "reasoning";
+			text: string;
+			/** Probability of `text`; defaults to its entry in `alternatives`. */
+			probability?: number;
+			alternatives?: TokenAlternative[];
+	  }
+	| { type: "delay"; ms: number }
+	| { type: "error"; message: string }
+	| { type: "finish"; reason: DummyScriptFinishReason };
+
+export const DEFAULT_DUMMY_SCRIPT = JSON.stringify(
+	[
+		{ type: "reasoning", text: "Picking a greeting." },
+		{ type: "delay", ms: 300 },
+		{
+			type: "text",
+			text: "Hello",
+			alternatives: [
+				{ token: "Hello", probability: 0.6 },
+				{ token: "Hi", probability: 0.3 },
+				{ token: "Hey", probability: 0.1 },
+			],
+		},
+		{ type: "delay", ms: 300 },
+		{ type: "text", text: " from the script." },
+		{ type: "finish", reason: "stop" },
+	],
+	null,
+	2,
+);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFinishReason = (value: unknown): value is DummyScriptFinishReason =>
+	DUMMY_SCRIPT_FINISH_REASONS.includes(value as DummyScriptFinishReason);
+
+const parseAlternatives = (value: unknown): TokenAlternative[] => {
+	if (!Array.isArray(value)) {
+		throw new Error("alternatives must be an array");
+	}
+	return value.map((entry) => {
+		if (
+			!isRecord(entry) ||
+			typeof entry.token !== "string" ||
+			typeof entry.probability !== "number" ||
+			entry.probability < 0 ||
+			entry.probability > 1
+		) {
+			throw new Error(
+				"each alternative needs a token and a probability between 0 and 1",
+			);
+		}
+		return { token: entry.token, probability: entry.probability };
+	});
+};
+
+const parseStep = (value: unknown): DummyScriptStep => {
+	if (!isRecord(value)) {
+		throw new Error("must be an object");
+	}
+	switch (value.type) {
+		case "text":
+		case "reasoning": {
+			if (typeof value.text !== "string") {
+				throw new Error("text must be a string");
+			}
+			if (
+				value.probability !== undefined &&
+				(typeof value.probability !== "number" ||
+					value.probability < 0 ||
+					value.probability > 1)
+			) {
+				throw new Error("probability must be between 0 and 1");
+			}
+			return {
+				type: value.type,
+				text: value.text,
+				probability: value.probability,
+				alternatives:
+					value.alternatives === undefined
+						? undefined
+						: parseAlternatives(value.alternatives),
+			};
+		}
+		case "delay":
+			if (
+				typeof value.ms !== "number" ||
+				!Number.isFinite(value.ms) ||
+				value.ms < 0
+			) {
+				throw new Error("ms must be a non-negative number");
+			}
+			return { type: "delay", ms: value.ms };
+		case "error":
+			return {
+				type: "error",
+				message:
+					typeof value.message === "string" ? value.message : "Scripted error",
+			};
+		case "finish":
+			if (!isFinishReason(value.reason)) {
+				throw new Error(
+					`reason must be one of ${DUMMY_SCRIPT_FINISH_REASONS.join(", ")}`,
+				);
+			}
+			return { type: "finish", reason: value.reason };
+		default:
+			throw new Error("type must be text, reasoning, delay, error or finish");
+	}
+};
+
+/** Parses a script from its JSON text. Errors name the offending step. */
+export const parseDummyScript = (text: string): DummyScriptStep[] => {
+	const parsed: unknown = JSON.parse(text);
+	if (!Array.isArray(parsed)) {
+		throw new Error("Script must be a JSON array of steps");
+	}
+	return parsed.map((value, index) => {
+		try {
+			const step = parseStep(value);
+			if (step.type === "finish" && index !== parsed.length - 1) {
+				throw new Error("finish must be the last step");
+			}
+			return step;
+		} catch (error) {
+			throw new Error(
+				`Step ${index + 1}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	});
+};
+
+/** Returns a message describing the first problem, or undefined when valid. */
+export const validateDummyScript = (text: string) => {
+	try {
+		parseDummyScript(text);
+		return undefined;
+	} catch (error) {
+		return error instanceof Error ? error.message : "Invalid script";
+	}
+};
@@ -0,0 +1,144 @@
+import type {
+	ChatProviderReady,
+	GenerationMetadata,
+	GenerationSettings,
+} from "../types";
+import { buildBuiltInCallSettings } from "./generationSettings";
+import type { StreamSummary } from "./streamUtils";
+
+// Drops unset keys so exported snapshots only list what was actually sent.
+const compactSettings = (settings: GenerationSettings): GenerationSettings =>
+	Object.fromEntries(
+		Object.entries(settings).filter(([, value]) => value !== undefined),
+	) as GenerationSettings;
+
+export const startGeneration = (
+	provider: ChatProviderReady,
+): GenerationMetadata => ({
+	providerKind: provider.kind,
+	modelId: provider.kind === "built-in" ? undefined : provider.modelId,
+	settings: compactSettings(
+		provider.kind === "built-in"
+			? buildBuiltInCallSettings(provider.generation)
+			: provider.generation,
+	),
+	startedAt: Date.now(),
+});
+
+export const finishGeneration = (
+	started: GenerationMetadata,
+	summary: StreamSummary | undefined,
+	fallbackFinishReason?: string,
+): GenerationMetadata => ({
+	...started,
+	finishReason: summary?.finishReason ?? fallbackFinishReason,
+	usage: summary?.usage,
+	firstTokenMs:
+		summary?.firstChunkAt !== undefined
+			? summary.firstChunkAt - started.startedAt
+			: undefined,
+	durationMs: Date.now() - started.startedAt,
+});
+
+const providerLabels: Record<GenerationMetadata["providerKind"], string> = {
+	"openai-compatible": "OpenAI-compatible",
+	"built-in": "Built-in AI",
+	dummy: "Dummy",
+	replay: "Replay",
+};
+
+const settingLabels: Record<keyof GenerationSettings, string> = {
+	temperature: "Temperature",
+	topP: "Top P",
+	topK: "Top K",
+	minP: "Min P",
+	presencePenalty: "Presence penalty",
+	frequencyPenalty: "Frequency penalty",
+	maxOutputTokens: "Max tokens",
+	seed: "Seed",
+	stopSequences: "Stop sequences",
+	topLogprobs: "Top logprobs",
+};
+
+const timestampFormatter = new Intl.DateTimeFormat(undefined, {
+	dateStyle: "short",
+	timeStyle: "medium",
+});
+
+export const formatDuration = (ms: number) =>
+	ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+export const getGenerationModelLabel = (generation: GenerationMetadata) =>
+	generation.modelId || providerLabels[generation.providerKind];
+
+/** One-line summary, e.g. `llama-3 · T 0.7 · 212 tok · 3.4 s`. */
+export const summarizeGeneration = (generation: GenerationMetadata) => {
+	const parts = [getGenerationModelLabel(generation)];
+	if (generation.settings.temperature !== undefined) {
+		parts.push(`T ${generation.settings.temperature}`);
+	}
+	if (generation.usage?.outputTokens !== undefined) {
+		parts.push(`${generation.usage.outputTokens} tok`);
+	}
+	if (generation.durationMs !== undefined) {
+		parts.push(formatDuration(generation.durationMs));
+	}
+	if (generation.finishReason && generation.finishReason !== "stop") {
+		parts.push(generation.finishReason);
+	}
+	return parts.join(" · ");
+};
+
+export const describeGeneration = (
+	generation: GenerationMetadata,
+): Array<{ label: string; value: string }> => {
+	const rows = [
+		{ label: "Provider", value: providerLabels[generation.providerKind] },
+		{ label: "Model", value: generation.modelId ?? "—" },
+		{
+			label: "Started",
+			value: timestampFormatter.format(generation.startedAt),
+		},
+	];
+	if (generation.finishReason) {
+		rows.push({ label: "Finish reason", value: generation.finishReason });
+	}
+	if (generation.firstTokenMs !== undefined) {
+		rows.push({
+			label: "First token",
+			value: formatDuration(generation.firstTokenMs),
+		});
+	}
+	if (generation.durationMs !== undefined) {
+		rows.push({
+			label: "Duration",
+			value: formatDuration(generation.durationMs),
+		});
+	}
+	const usage = generation.usage;
+	if (usage) {
+		const tokenRows: Array<[string, number | undefined]> = [
+			["Input tokens", usage.inputTokens],
+			["Output tokens", usage.outputTokens],
+			["Reasoning tokens", usage.reasoningTokens],
+			["Total tokens", usage.totalTokens],
+		];
+		for (const [label, value] of tokenRows) {
+			if (value !== undefined) {
+				rows.push({ label, value: String(value) });
+			}
+		}
+	}
+	for (const [key, value] of Object.entries(generation.settings)) {
+		if (value === undefined) {
+			continue;
+		}
+		rows.push({
+			label: settingLabels[key as keyof GenerationSettings] ?? key,
+			value: Array.isArray(value)
+				? value.map((item) => JSON.stringify(item)).join(", ")
+				: String(value),
+		});
+	}
+	return rows;
+};
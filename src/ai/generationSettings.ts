@@ -0,0 +1,74 @@
+import type { GenerationSettings, ProviderEntry } from "../types";
+import {
+	buildChatLogprobOptions,
+	buildCompletionLogprobOptions,
+} from "./openaiLogprobs";
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+	temperature: 0.3,
+	topLogprobs: 5,
+};
+
+// Built-in AI has no model list, so its settings live under a fixed key.
+const DEFAULT_MODEL_KEY = "default";
+
+export const generationSettingsKey = (modelId: string | null | undefined) =>
+	modelId || DEFAULT_MODEL_KEY;
+
+export const resolveGenerationSettings = (
+	provider: ProviderEntry | undefined,
+	modelId: string | null | undefined,
+): GenerationSettings =>
+	provider?.generationSettings?.[generationSettingsKey(modelId)] ??
+	DEFAULT_GENERATION_SETTINGS;
+
+/**
+ * Settings understood by `streamText` itself. `topK` is left out for
+ * OpenAI-compatible calls because the SDK drops it with a warning; it is sent
+ * through provider options instead.
+ */
+export const buildCallSettings = (
+	settings: GenerationSettings,
+	{ nativeTopK = true }: { nativeTopK?: boolean } = {},
+) => ({
+	temperature: settings.temperature,
+	topP: settings.topP,
+	topK: nativeTopK ? settings.topK : undefined,
+	presencePenalty: settings.presencePenalty,
+	frequencyPenalty: settings.frequencyPenalty,
+	maxOutputTokens: settings.maxOutputTokens,
+	seed: settings.seed,
+	stopSequences: settings.stopSequences?.length
+		? settings.stopSequences
+		: undefined,
+});
+
+export const buildBuiltInCallSettings = (settings: GenerationSettings) => ({
+	temperature: settings.temperature,
+	topK: settings.topK,
+});
+
+/**
+ * Provider options for OpenAI-compatible servers: logprob requests plus the
+ * sampling knobs the SDK has no field for (llama.cpp and vLLM accept `top_k`
+ * and `min_p` in the request body).
+ */
+export const buildOpenAICompatibleProviderOptions = (
+	providerName: string,
+	settings: GenerationSettings,
+	mode: "chat" | "completion",
+) => {
+	const topLogprobs =
+		settings.topLogprobs ?? DEFAULT_GENERATION_SETTINGS.topLogprobs;
+	const logprobOptions =
+		mode === "chat"
+			? buildChatLogprobOptions(providerName, topLogprobs)
+			: buildCompletionLogprobOptions(providerName, topLogprobs);
+	return {
+		[providerName]: {
+			...logprobOptions[providerName],
+			...(settings.topK !== undefined ? { top_k: settings.topK } : {}),
+			...(settings.minP !== undefined ? { min_p: settings.minP } : {}),
+		},
+	};
+};
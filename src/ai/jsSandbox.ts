@@ -0,0 +1,189 @@
+export const JAVASCRIPT_TOOL_NAME = "run_javascript";
+
+export const DEFAULT_SANDBOX_TIMEOUT_MS = 5000;
+
+export interface SandboxLogEntry {
+	level: "log" | "info" | "warn" | "error" | "debug";
+	text: string;
+}
+
+export interface SandboxResult {
+	logs: SandboxLogEntry[];
+	value?: string;
+	error?: string;
+	timedOut: boolean;
+	/** Set when the abort signal stopped the run. */
+	aborted?: boolean;
+	durationMs: number;
+}
+
+export interface SandboxOptions {
+	timeoutMs?: number;
+	/**
+	 * Lets the code make network requests. Storage stays out of reach either
+	 * way, since the frame's origin is not the app's.
+	 */
+	allowNetwork?: boolean;
+	abortSignal?: AbortSignal;
+}
+
+// Runs in a dedicated worker built from this string, since the app ships as a
+// single HTML file with no separate worker script to load.
+const workerSource = `
+const format = (value) => {
+	if (typeof value === "string") return value;
+	if (value instanceof Error) return value.stack || String(value);
+	try {
+		const json = JSON.stringify(value, null, 2);
+		return json === undefined ? String(value) : json;
+	} catch {
+		return String(value);
+	}
+};
+for (const level of ["log", "info", "warn", "error", "debug"]) {
+	console[level] = (...args) =>
+		self.postMessage({ type: "log", entry: { level, text: args.map(format).join(" ") } });
+}
+self.onmessage = async (event) => {
+	try {
+		let value;
+		try {
+			value = (0, eval)(event.data.code);
+		} catch (error) {
+			// Top-level await is only valid inside an async function body.
+			if (!(error instanceof SyntaxError) || !/await/.test(error.message)) throw error;
+			const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor;
+			value = new AsyncFunction(event.data.code)();
+		}
+		value = await value;
+		self.postMessage({ type: "done", value: value === undefined ? undefined : format(value) });
+	} catch (error) {
+		self.postMessage({ type: "done", error: error instanceof Error ? error.name + ": " + error.message : format(error) });
+	}
+};
+`;
+
+// The worker is started from an `allow-scripts`-only iframe, so it runs in an
+// opaque origin: the app's IndexedDB, where API keys are saved, belongs to a
+// different origin, and nested workers or blobs it creates stay opaque too.
+// The policy blocks every request unless network access is allowed, and
+// workers created from blob URLs inherit it. The frame only relays messages
+// between the page and the worker.
+const sandboxPolicy = (allowNetwork: boolean) =>
+	`default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:${allowNetwork ? "; connect-src *" : ""}`;
+
+const frameSource = (allowNetwork: boolean) => `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="${sandboxPolicy(allowNetwork)}">
+<script>
+try {
+	const worker = new Worker(URL.createObjectURL(new Blob([${JSON.stringify(workerSource).replace(/</g, "\\u003c")}], { type: "text/javascript" })));
+	worker.onmessage = (event) => parent.postMessage(event.data, "*");
+	worker.onerror = (event) => {
+		event.preventDefault();
+		parent.postMessage({ type: "done", error: event.message }, "*");
+	};
+	onmessage = (event) => worker.postMessage(event.data);
+} catch (error) {
+	parent.postMessage({ type: "done", error: "Sandbox failed to start: " + error }, "*");
+}
+</script>`;
+
+type WorkerMessage =
+	| { type: "log"; entry: SandboxLogEntry }
+	| { type: "done"; value?: string; error?: string };
+
+/**
+ * Evaluates `code` in a fresh sandboxed worker and resolves with its console
+ * output and final value. The frame, and the worker with it, is removed once
+ * it answers, after `timeoutMs` or when `abortSignal` fires, so runaway loops
+ * cannot hang the page.
+ */
+export const runInSandbox = (
+	code: string,
+	{
+		timeoutMs = DEFAULT_SANDBOX_TIMEOUT_MS,
+		allowNetwork = false,
+		abortSignal,
+	}: SandboxOptions = {},
+) =>
+	new Promise<SandboxResult>((resolve) => {
+		const startedAt = performance.now();
+		const frame = document.createElement("iframe");
+		frame.sandbox.add("allow-scripts");
+		frame.srcdoc = frameSource(allowNetwork);
+		frame.style.display = "none";
+		const logs: SandboxLogEntry[] = [];
+		const finish = (
+			result: Pick<SandboxResult, "value" | "error" | "timedOut" | "aborted">,
+		) => {
+			clearTimeout(timer);
+			abortSignal?.removeEventListener("abort", handleAbort);
+			window.removeEventListener("message", handleMessage);
+			frame.remove();
+			resolve({
+				...result,
+				logs,
+				durationMs: Math.round(performance.now() - startedAt),
+			});
+		};
+		const timer = setTimeout(() => {
+			finish({ timedOut: true });
+		}, timeoutMs);
+		const handleMessage = (event: MessageEvent<WorkerMessage>) => {
+			// Opaque-origin frames report "null" as their origin, so match the
+			// sender window instead.
+			if (event.source !== frame.contentWindow) {
+				return;
+			}
+			if (event.data.type === "log") {
+				logs.push(event.data.entry);
+				return;
+			}
+			finish({
+				value: event.data.value,
+				error: event.data.error,
+				timedOut: false,
+			});
+		};
+		const handleAbort = () => {
+			finish({ error: "Stopped", timedOut: false, aborted: true });
+		};
+		if (abortSignal?.aborted) {
+			handleAbort();
+			return;
+		}
+		abortSignal?.addEventListener("abort", handleAbort);
+		window.addEventListener("message", handleMessage);
+		frame.onload = () => {
+			frame.contentWindow?.postMessage({ code }, "*");
+		};
+		document.body.append(frame);
+	});
+
+const logPrefix: Record<SandboxLogEntry["level"], string> = {
+	log: "",
+	info: "[info] ",
+	warn: "[warn] ",
+	error: "[error] ",
+	debug: "[debug] ",
+};
+
+/** Plain-text rendering stored as the `tool` node's content. */
+export const formatSandboxResult = (result: SandboxResult) => {
+	const lines = result.logs.map(
+		(entry) => `${logPrefix[entry.level]}${entry.text}`,
+	);
+	if (result.value !== undefined) {
+		lines.push(`=> ${result.value}`);
+	}
+	if (result.error) {
+		lines.push(result.error);
+	}
+	if (result.timedOut) {
+		lines.push(`Timed out after ${result.durationMs} ms`);
+	}
+	return lines.length > 0 ? lines.join("\n") : "(no output)";
+};
+
+export const isSandboxFailure = (result: SandboxResult) =>
+	Boolean(result.error) || result.timedOut || Boolean(result.aborted);
@@ -21,6 +21,8 @@ export const buildOpenAICompatibleProvider = ({
 		baseURL: normalizedBaseURL,
 		name: OPENAI_COMPATIBLE_PROVIDER_NAME,
 		apiKey: apiKey || "_PLACEHOLDER_",
+		// Requests `stream_options.include_usage` so token counts reach the tree.
+		includeUsage: true,
 	});
 };
 
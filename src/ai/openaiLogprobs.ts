@@ -117,16 +117,75 @@ const toUserContent = (content: Message["content"]): UserModelContent =>
 			);
 
 const toAssistantContent = (
-	content: Message["content"],
-): AssistantModelContent => toTextContent(content);
+	message: Message,
+	answeredCallIds: Set<string>,
+): AssistantModelContent => {
+	const text = toTextContent(message.content);
+	const calls = (message.tool_calls ?? []).filter((call) =>
+		answeredCallIds.has(call.toolCallId),
+	);
+	if (calls.length === 0) {
+		return text;
+	}
+	return [
+		...(text ? [{ type: "text" as const, text }] : []),
+		...calls.map((call) => ({
+			type: "tool-call" as const,
+			toolCallId: call.toolCallId,
+			toolName: call.toolName,
+			input: call.input,
+		})),
+	];
+};
+
+/** A tool result as user text, for results without a matching call. */
+export const toToolOutputText = (message: Message) =>
+	`Output of ${message.tool_result?.toolName ?? "tool"}:\n\n${toTextContent(
+		message.content,
+	)}`;
 
 export const toModelMessages = (
 	messages: Message[],
 	assistantPrefix?: string,
 ): ModelMessage[] => {
+	// Servers reject calls without results and results without calls. Calls
+	// left unanswered are dropped; results nobody asked for (code the user ran,
+	// or nodes moved between branches) are passed on as user text.
+	const calledIds = new Set(
+		messages.flatMap((message) =>
+			(message.tool_calls ?? []).map((call) => call.toolCallId),
+		),
+	);
+	const answeredIds = new Set(
+		messages.flatMap((message) =>
+			message.tool_result ? [message.tool_result.toolCallId] : [],
+		),
+	);
 	const normalized: ModelMessage[] = [];
 	for (const message of messages) {
 		if (message.role === "tool") {
+			const result = message.tool_result;
+			if (!result) {
+				continue;
+			}
+			if (!calledIds.has(result.toolCallId)) {
+				normalized.push({ role: "user", content: toToolOutputText(message) });
+				continue;
+			}
+			const value = toTextContent(message.content);
+			normalized.push({
+				role: "tool",
+				content: [
+					{
+						type: "tool-result",
+						toolCallId: result.toolCallId,
+						toolName: result.toolName,
+						output: result.isError
+							? { type: "error-text", value }
+							: { type: "text", value },
+					},
+				],
+			});
 			continue;
 		}
 		if (message.role === "system") {
@@ -145,7 +204,7 @@ export const toModelMessages = (
 		}
 		normalized.push({
 			role: "assistant",
-			content: toAssistantContent(message.content),
+			content: toAssistantContent(message, answeredIds),
 		});
 	}
 	if (assistantPrefix) {
@@ -0,0 +1,58 @@
+import { APICallError } from "@ai-sdk/provider";
+import { RetryError } from "ai";
+import type { AutoRetrySettings } from "../types";
+
+export const DEFAULT_AUTO_RETRY: AutoRetrySettings = {
+	maxAttempts: 0,
+	initialDelayMs: 1000,
+};
+
+// What fetch says when a connection fails, in Chrome ("Failed to fetch",
+// "network error" mid-body), Firefox ("NetworkError when attempting to fetch
+// resource.") and Safari ("Load failed", "The network connection was lost.").
+const networkFailure =
+	/failed to fetch|network ?error|load failed|network connection was lost/i;
+
+/**
+ * Whether trying the same request again could succeed: rate limits, server
+ * errors and dropped connections, but not bad requests or rejected keys.
+ */
+export const isTransientError = (error: unknown): boolean => {
+	if (RetryError.isInstance(error)) {
+		return isTransientError(error.lastError);
+	}
+	if (APICallError.isInstance(error)) {
+		return error.isRetryable;
+	}
+	// fetch rejects with a TypeError when the connection fails or drops; other
+	// TypeErrors are bugs and fail at once.
+	if (error instanceof TypeError && networkFailure.test(error.message)) {
+		return true;
+	}
+	// Stream errors arrive wrapped, with the original as the cause.
+	return error instanceof Error && isTransientError(error.cause);
+};
+
+/** Backoff before retry number `attempt` (1-based). */
+export const retryDelay = (
+	{ initialDelayMs }: AutoRetrySettings,
+	attempt: number,
+) => Math.max(0, initialDelayMs) * 2 ** (attempt - 1);
+
+/** Resolves true after `ms`, or false as soon as `signal` aborts. */
+export const waitForRetry = (ms: number, signal: AbortSignal) =>
+	new Promise<boolean>((resolve) => {
+		if (signal.aborted) {
+			resolve(false);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			resolve(false);
+		};
+		const timer = setTimeout(() => {
+			signal.removeEventListener("abort", onAbort);
+			resolve(true);
+		}, ms);
+		signal.addEventListener("abort", onAbort, { once: true });
+	});
@@ -1,19 +1,40 @@
-import { type ModelMessage, streamText } from "ai";
+import { type LanguageModel, type ModelMessage, streamText } from "ai";
 import type { StreamManager } from "../hooks/useStreamManager";
 import type {
+	AutoRetrySettings,
 	ChatProviderReady,
+	GenerationMetadata,
 	Message,
 	MessageContent,
 	TokenLogprob,
+	ToolCall,
+	ToolDefinition,
+	ToolResult,
+	TruncationSettings,
 } from "../types";
+import { type Cassette, recordStream, replayCassette } from "./cassette";
+import {
+	DEFAULT_TRUNCATION,
+	summarizeMessages,
+	truncateContext,
+} from "./contextTruncation";
 import { createDummyProvider } from "./dummyProvider";
+import { finishGeneration, startGeneration } from "./generationMetadata";
+import {
+	buildBuiltInCallSettings,
+	buildCallSettings,
+	buildOpenAICompatibleProviderOptions,
+} from "./generationSettings";
 import { OPENAI_COMPATIBLE_PROVIDER_NAME } from "./openaiCompatible";
 import {
-	buildChatLogprobOptions,
 	parseChatLogprobsChunk,
+	parseCompletionLogprobsChunk,
 	toModelMessages,
+	toToolOutputText,
 } from "./openaiLogprobs";
-import { processFullStream } from "./streamUtils";
+import { isTransientError, retryDelay, waitForRetry } from "./retry";
+import { type StreamSummary, processFullStream } from "./streamUtils";
+import { MAX_TOOL_STEPS, buildToolSet, runToolCall } from "./tools";
 
 export interface SendMessageContext {
 	provider: ChatProviderReady;
@@ -22,23 +43,38 @@ export interface SendMessageContext {
 	createSystemMessage: (text: string) => string;
 	createUserAfter: (parentId: string, content: MessageContent) => string;
 	createAssistantAfter: (parentId: string) => string;
+	createAssistantsAfter: (parentId: string, count: number) => string[];
+	createToolResultAfter: (
+		parentId: string,
+		result: ToolResult,
+		output: string,
+	) => string;
 	setNodeStatus: (
 		id: string,
 		status: "draft" | "streaming" | "final" | "error",
 	) => void;
 	setActiveTarget: (id: string) => void;
+	setNodeGeneration: (id: string, generation: GenerationMetadata) => void;
+	clearNodeOutput: (id: string) => void;
 	appendToNode: (
 		nodeId: string,
 		delta: {
 			content?: string;
 			reasoning?: string;
 			tokenLogprobs?: TokenLogprob[];
+			toolCalls?: ToolCall[];
 		},
 	) => void;
 	compilePathTo: (nodeId: string) => Message[];
 	streamManager: StreamManager;
 	setIsGenerating: (value: boolean) => void;
 	defaultSystemPrompt: string;
+	tools?: ToolDefinition[];
+	enableJavaScriptTool?: boolean;
+	/** Receives a cassette of each OpenAI-compatible stream when set. */
+	recordCassette?: (cassette: Cassette) => void;
+	autoRetry?: AutoRetrySettings;
+	truncation?: TruncationSettings;
 }
 
 const hasMessageContent = (content: MessageContent) => {
@@ -50,65 +86,151 @@ const hasMessageContent = (content: MessageContent) => {
 	);
 };
 
-export const sendMessage = async (
-	promptContent: MessageContent,
+const summaryModelFor = (
+	provider: Exclude<ChatProviderReady, { kind: "replay" }>,
+): LanguageModel => {
+	if (provider.kind === "openai-compatible") {
+		return provider.openAIProvider.chatModel(provider.modelId);
+	}
+	if (provider.kind === "dummy") {
+		return createDummyProvider({
+			tokensPerSecond: provider.tokensPerSecond,
+			script: provider.script,
+			faults: provider.faults,
+		}).chatModel(provider.modelId);
+	}
+	return provider.getBuiltInChatModel();
+};
+
+/**
+ * Cuts a compiled path down with the selected truncation strategy, sized for
+ * `provider`'s context window. Everything that sends a chat goes through it.
+ */
+export const compileRequestContext = (
+	messages: Message[],
+	provider: ChatProviderReady,
+	truncation: TruncationSettings = DEFAULT_TRUNCATION,
+	abortSignal?: AbortSignal,
+) => {
+	if (provider.kind === "replay") {
+		// A cassette answers from its recording, so there is nothing to fit.
+		return truncateContext(messages, { settings: DEFAULT_TRUNCATION });
+	}
+	return truncateContext(messages, {
+		settings: truncation,
+		contextLength: provider.contextLength,
+		reservedTokens: provider.generation.maxOutputTokens,
+		summarize: (dropped, summarySignal) =>
+			summarizeMessages(summaryModelFor(provider), dropped, summarySignal),
+		abortSignal,
+	});
+};
+
+/**
+ * Runs each call in order and chains its result below the reply as a `tool`
+ * node. Returns the last result node, which the follow-up reply hangs off.
+ */
+const recordToolResults = async (
+	assistantId: string,
+	toolCalls: ToolCall[],
+	{
+		tools = [],
+		enableJavaScriptTool = false,
+		createToolResultAfter,
+	}: SendMessageContext,
+	abortSignal: AbortSignal,
+) => {
+	let parentId = assistantId;
+	for (const call of toolCalls) {
+		// Calls after a Stop are not run at all.
+		if (abortSignal.aborted) {
+			break;
+		}
+		const { output, isError } = await runToolCall(call, tools, {
+			javascript: enableJavaScriptTool,
+			abortSignal,
+		});
+		parentId = createToolResultAfter(
+			parentId,
+			{
+				toolCallId: call.toolCallId,
+				toolName: call.toolName,
+				...(isError ? { isError } : {}),
+			},
+			output,
+		);
+	}
+	return parentId;
+};
+
+const streamAssistantReply = async (
+	assistantId: string,
+	context: SendMessageContext,
 	{
+		prefixAssistant = false,
+		activate = true,
+		step = 0,
+		attempt = 0,
+	}: {
+		prefixAssistant?: boolean;
+		activate?: boolean;
+		step?: number;
+		attempt?: number;
+	} = {},
+): Promise<void> => {
+	const {
 		provider,
-		activeTargetId,
-		activeTail,
-		createSystemMessage,
-		createUserAfter,
-		createAssistantAfter,
 		setNodeStatus,
 		setActiveTarget,
+		setNodeGeneration,
 		appendToNode,
 		compilePathTo,
 		streamManager,
 		setIsGenerating,
-		defaultSystemPrompt,
-	}: SendMessageContext,
-) => {
-	const hasContent = hasMessageContent(promptContent);
-	let resolvedParentId = activeTail() ?? activeTargetId;
-	if (!resolvedParentId) {
-		resolvedParentId = createSystemMessage(defaultSystemPrompt);
-	}
-
-	const currentContext = compilePathTo(resolvedParentId);
-	const lastMessage = currentContext[currentContext.length - 1];
-
-	let assistantId: string;
-
-	if (hasContent) {
-		resolvedParentId = createUserAfter(resolvedParentId, promptContent);
-		assistantId = createAssistantAfter(resolvedParentId);
-	} else if (lastMessage?.role === "assistant") {
-		assistantId = lastMessage._metadata.uuid;
-	} else {
-		assistantId = createAssistantAfter(resolvedParentId);
-	}
-
-	const contextMessages = compilePathTo(assistantId);
-	const shouldPrefixAssistant =
-		provider.kind === "built-in" &&
-		lastMessage?.role === "assistant" &&
-		lastMessage._metadata.uuid === assistantId;
+		tools = [],
+		enableJavaScriptTool = false,
+		recordCassette,
+		autoRetry,
+		truncation,
+	} = context;
+	const shouldPrefixAssistant = provider.kind === "built-in" && prefixAssistant;
+	let toolResultTailId: string | undefined;
+	let retryDelayMs: number | undefined;
 
 	setNodeStatus(assistantId, "streaming");
-	setActiveTarget(assistantId);
+	if (activate) {
+		setActiveTarget(assistantId);
+	}
 	const abortController = new AbortController();
 	streamManager.register(assistantId, abortController);
-	const filteredContext = contextMessages.filter(
-		(message) => message.role !== "tool",
-	);
+	// Recorded up front so the model is known while the reply streams.
+	const generation = startGeneration(provider);
+	setNodeGeneration(assistantId, generation);
 	try {
+		let summary: StreamSummary;
 		setIsGenerating(true);
+		// Built in here so a tool that fails to build marks the reply as failed.
+		// A replay would answer every tool round with the same recorded calls.
+		const toolSet =
+			provider.kind === "built-in" || provider.kind === "replay"
+				? undefined
+				: buildToolSet(tools, { javascript: enableJavaScriptTool });
+		const { messages: contextMessages } = await compileRequestContext(
+			compilePathTo(assistantId),
+			provider,
+			truncation,
+			abortController.signal,
+		);
 		if (provider.kind === "built-in") {
-			const modelMessages = filteredContext.map((message) => {
-				const base = {
-					role: message.role as "system" | "user" | "assistant",
-					content: message.content,
-				};
+			// The Prompt API has no tool role, so results are passed as user text.
+			const modelMessages = contextMessages.map((message) => {
+				const base =
+					message.role === "tool"
+						? { role: "user" as const, content: toToolOutputText(message) }
+						: {
+								role: message.role as "system" | "user" | "assistant",
+								content: message.content,
+							};
 				if (shouldPrefixAssistant && message._metadata.uuid === assistantId) {
 					return {
 						...base,
@@ -122,59 +244,285 @@ export const sendMessage = async (
 			const stream = streamText({
 				model: provider.getBuiltInChatModel(),
 				messages: modelMessages,
-				temperature: 0.3,
+				...buildBuiltInCallSettings(provider.generation),
 				abortSignal: abortController.signal,
 			});
-			await processFullStream(stream.fullStream, {
+			summary = await processFullStream(stream.fullStream, {
 				append: (delta) => appendToNode(assistantId, delta),
 			});
-			setNodeStatus(assistantId, "final");
 		} else if (provider.kind === "dummy") {
 			const dummyProvider = createDummyProvider({
 				tokensPerSecond: provider.tokensPerSecond,
+				script: provider.script,
+				faults: provider.faults,
 			});
 			const stream = streamText({
 				model: dummyProvider.chatModel(provider.modelId),
-				messages: filteredContext.map((m) => ({
-					role: m.role as "system" | "user" | "assistant",
-					content: m.content,
-				})) as ModelMessage[],
-				temperature: 0.3,
+				messages: toModelMessages(contextMessages),
+				tools: toolSet,
+				...buildCallSettings(provider.generation),
 				abortSignal: abortController.signal,
 			});
-			await processFullStream(stream.fullStream, {
+			summary = await processFullStream(stream.fullStream, {
 				append: (delta) => appendToNode(assistantId, delta),
 			});
-			setNodeStatus(assistantId, "final");
+		} else if (provider.kind === "replay") {
+			const { cassette } = provider;
+			summary = await processFullStream(
+				replayCassette(cassette, {
+					tokensPerSecond: provider.tokensPerSecond,
+					abortSignal: abortController.signal,
+				}),
+				{
+					append: (delta) => appendToNode(assistantId, delta),
+					parseRawChunk:
+						cassette.mode === "completion"
+							? parseCompletionLogprobsChunk
+							: parseChatLogprobsChunk,
+				},
+			);
 		} else {
-			const modelMessages = toModelMessages(filteredContext);
+			const modelMessages = toModelMessages(contextMessages);
 			const stream = streamText({
 				model: provider.openAIProvider.chatModel(provider.modelId),
 				messages: modelMessages,
-				temperature: 0.3,
+				tools: toolSet,
+				...buildCallSettings(provider.generation, { nativeTopK: false }),
 				abortSignal: abortController.signal,
 				includeRawChunks: true,
-				providerOptions: buildChatLogprobOptions(
+				providerOptions: buildOpenAICompatibleProviderOptions(
 					OPENAI_COMPATIBLE_PROVIDER_NAME,
+					provider.generation,
+					"chat",
 				),
 			});
-			await processFullStream(stream.fullStream, {
+			const fullStream = recordCassette
+				? recordStream(
+						stream.fullStream,
+						{ modelId: provider.modelId, mode: "chat" },
+						recordCassette,
+					)
+				: stream.fullStream;
+			summary = await processFullStream(fullStream, {
 				append: (delta) => appendToNode(assistantId, delta),
 				parseRawChunk: parseChatLogprobsChunk,
 			});
-			setNodeStatus(assistantId, "final");
+		}
+		setNodeGeneration(assistantId, finishGeneration(generation, summary));
+		setNodeStatus(assistantId, "final");
+		if (toolSet && summary.toolCalls?.length && step < MAX_TOOL_STEPS) {
+			const tailId = await recordToolResults(
+				assistantId,
+				summary.toolCalls,
+				context,
+				abortController.signal,
+			);
+			if (!abortController.signal.aborted) {
+				toolResultTailId = tailId;
+			}
 		}
 	} catch (error) {
 		if (abortController.signal.aborted) {
+			setNodeGeneration(
+				assistantId,
+				finishGeneration(generation, undefined, "abort"),
+			);
 			setNodeStatus(assistantId, "draft");
 		} else {
+			setNodeGeneration(
+				assistantId,
+				finishGeneration(generation, undefined, "error"),
+			);
 			setNodeStatus(assistantId, "error");
-			throw error;
+			if (
+				!autoRetry ||
+				attempt >= autoRetry.maxAttempts ||
+				!isTransientError(error)
+			) {
+				throw error;
+			}
+			retryDelayMs = retryDelay(autoRetry, attempt + 1);
 		}
 	} finally {
-		if (streamManager.getLatest() === assistantId) {
+		streamManager.release(assistantId);
+		if (!streamManager.hasActive()) {
 			setIsGenerating(false);
 		}
-		streamManager.clearLatestIf(assistantId);
 	}
+	if (retryDelayMs !== undefined) {
+		// Registered like a stream so Stop cancels the wait; the reply then
+		// stays failed and can be retried or resumed by hand.
+		const waitController = new AbortController();
+		streamManager.register(assistantId, waitController);
+		setIsGenerating(true);
+		const shouldRetry = await waitForRetry(retryDelayMs, waitController.signal);
+		streamManager.release(assistantId);
+		if (!streamManager.hasActive()) {
+			setIsGenerating(false);
+		}
+		if (!shouldRetry) {
+			return;
+		}
+		// A continuation keeps its text, so its retry picks up where it failed.
+		if (!prefixAssistant) {
+			context.clearNodeOutput(assistantId);
+		}
+		await streamAssistantReply(assistantId, context, {
+			prefixAssistant,
+			activate,
+			step,
+			attempt: attempt + 1,
+		});
+		return;
+	}
+	if (toolResultTailId) {
+		const nextAssistantId = context.createAssistantAfter(toolResultTailId);
+		await streamAssistantReply(nextAssistantId, context, {
+			activate,
+			step: step + 1,
+		});
+	}
+};
+
+/**
+ * Streams one assistant reply per provider under `parentId` at the same time.
+ * The cursor stays on the parent so the replies can be compared before one is
+ * picked. Rejects with the first failure once every stream has settled.
+ */
+export const streamParallelReplies = async (
+	parentId: string,
+	providers: ChatProviderReady[],
+	context: SendMessageContext,
+) => {
+	const assistantIds = context.createAssistantsAfter(
+		parentId,
+		providers.length,
+	);
+	context.setActiveTarget(parentId);
+	const results = await Promise.allSettled(
+		assistantIds.map((assistantId, index) =>
+			streamAssistantReply(
+				assistantId,
+				{ ...context, provider: providers[index] ?? context.provider },
+				{ activate: false },
+			),
+		),
+	);
+	const failure = results.find(
+		(result): result is PromiseRejectedResult => result.status === "rejected",
+	);
+	if (failure) {
+		throw failure.reason;
+	}
+	return assistantIds;
+};
+
+export const sendMessage = async (
+	promptContent: MessageContent,
+	context: SendMessageContext,
+	{
+		sampleCount = 1,
+		providers = [context.provider],
+	}: {
+		sampleCount?: number;
+		/** Models to answer with; each gets `sampleCount` replies. */
+		providers?: ChatProviderReady[];
+	} = {},
+) => {
+	const {
+		activeTargetId,
+		activeTail,
+		createSystemMessage,
+		createUserAfter,
+		createAssistantAfter,
+		compilePathTo,
+		defaultSystemPrompt,
+	} = context;
+	const hasContent = hasMessageContent(promptContent);
+	let resolvedParentId = activeTail() ?? activeTargetId;
+	if (!resolvedParentId) {
+		resolvedParentId = createSystemMessage(defaultSystemPrompt);
+	}
+
+	const currentContext = compilePathTo(resolvedParentId);
+	const lastMessage = currentContext[currentContext.length - 1];
+
+	const replyProviders = providers.flatMap((provider) =>
+		Array.from({ length: Math.max(1, sampleCount) }, () => provider),
+	);
+
+	if (replyProviders.length > 1) {
+		// Without a new prompt, sampling re-rolls the last assistant turn.
+		const parentId = hasContent
+			? createUserAfter(resolvedParentId, promptContent)
+			: lastMessage?.role === "assistant"
+				? currentContext[currentContext.length - 2]?._metadata.uuid ??
+					resolvedParentId
+				: resolvedParentId;
+		await streamParallelReplies(parentId, replyProviders, context);
+		return;
+	}
+
+	let assistantId: string;
+
+	if (hasContent) {
+		resolvedParentId = createUserAfter(resolvedParentId, promptContent);
+		assistantId = createAssistantAfter(resolvedParentId);
+	} else if (lastMessage?.role === "assistant") {
+		assistantId = lastMessage._metadata.uuid;
+	} else {
+		assistantId = createAssistantAfter(resolvedParentId);
+	}
+
+	await streamAssistantReply(assistantId, context, {
+		prefixAssistant:
+			lastMessage?.role === "assistant" &&
+			lastMessage._metadata.uuid === assistantId,
+	});
 };
+
+/**
+ * Creates a fresh assistant sibling of `messageId` under the same parent and
+ * streams a new reply into it, leaving the original reply as its own branch.
+ */
+export const regenerateMessage = async (
+	messageId: string,
+	context: SendMessageContext & {
+		predecessorOf: (nodeId: string) => string | undefined;
+	},
+) => {
+	const parentId = context.predecessorOf(messageId);
+	if (!parentId) {
+		return undefined;
+	}
+	const assistantId = context.createAssistantAfter(parentId);
+	await streamAssistantReply(assistantId, context);
+	return assistantId;
+};
+
+/**
+ * Throws away a failed reply's partial output and streams it again in place.
+ * The cursor only moves to it when it is already the tail of the active path.
+ */
+export const retryMessage = async (
+	messageId: string,
+	context: SendMessageContext,
+) => {
+	context.clearNodeOutput(messageId);
+	await streamAssistantReply(messageId, context, {
+		activate: context.activeTail() === messageId,
+	});
+};
+
+/**
+ * Streams more text into an existing reply, sending its current text as the
+ * assistant prefix. Works on any reply: truncated, stopped or failed.
+ */
+export const continueMessage = (
+	messageId: string,
+	context: SendMessageContext,
+) =>
+	streamAssistantReply(messageId, context, {
+		prefixAssistant: true,
+		activate: context.activeTail() === messageId,
+	});
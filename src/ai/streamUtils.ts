@@ -1,18 +1,31 @@
-import type { TokenLogprob } from "../types";
+import type { GenerationUsage, TokenLogprob, ToolCall } from "../types";
 import type { StreamChunk } from "./openaiLogprobs";
 
-type StreamPart = {
+export type StreamPart = {
 	type: string;
 	text?: string;
 	rawValue?: unknown;
 	error?: unknown;
 	providerMetadata?: unknown;
+	finishReason?: string;
+	totalUsage?: GenerationUsage;
+	toolCallId?: string;
+	toolName?: string;
+	input?: unknown;
 };
 
+export interface StreamSummary {
+	finishReason?: string;
+	usage?: GenerationUsage;
+	firstChunkAt?: number;
+	toolCalls?: ToolCall[];
+}
+
 type StreamAppender = (delta: {
 	content?: string;
 	reasoning?: string;
 	tokenLogprobs?: TokenLogprob[];
+	toolCalls?: ToolCall[];
 }) => void;
 
 const toErrorMessage = (error: unknown) =>
@@ -25,6 +38,33 @@ const toErrorMessage = (error: unknown) =>
 const isRecord = (value: unknown): value is Record<string, unknown> =>
 	typeof value === "object" && value !== null;
 
+const pickUsage = (usage: GenerationUsage | undefined) => {
+	if (!usage) {
+		return undefined;
+	}
+	const picked: GenerationUsage = {
+		inputTokens: usage.inputTokens,
+		outputTokens: usage.outputTokens,
+		reasoningTokens: usage.reasoningTokens,
+		totalTokens: usage.totalTokens,
+	};
+	return Object.values(picked).some((value) => typeof value === "number")
+		? picked
+		: undefined;
+};
+
+const isTokenAlternative = (value: unknown) =>
+	isRecord(value) &&
+	typeof value.token === "string" &&
+	typeof value.probability === "number";
+
+const isTokenLogprob = (value: unknown): value is TokenLogprob =>
+	isRecord(value) &&
+	typeof value.token === "string" &&
+	(value.probability === undefined || typeof value.probability === "number") &&
+	Array.isArray(value.alternatives) &&
+	value.alternatives.every(isTokenAlternative);
+
 const extractTokenLogprobsFromProviderMetadata = (
 	providerMetadata: unknown,
 ): TokenLogprob[] | undefined => {
@@ -39,7 +79,9 @@ const extractTokenLogprobsFromProviderMetadata = (
 	if (!Array.isArray(tokenLogprobs) || tokenLogprobs.length === 0) {
 		return undefined;
 	}
-	return tokenLogprobs as TokenLogprob[];
+	// Malformed entries are dropped so a bad payload cannot break rendering.
+	const valid = tokenLogprobs.filter(isTokenLogprob);
+	return valid.length > 0 ? valid : undefined;
 };
 
 export const processFullStream = async (
@@ -51,16 +93,28 @@ export const processFullStream = async (
 		append: StreamAppender;
 		parseRawChunk?: (raw: unknown) => StreamChunk | undefined;
 	},
-) => {
+): Promise<StreamSummary> => {
+	const summary: StreamSummary = {};
 	for await (const part of fullStream) {
 		if (part.type === "error") {
-			throw new Error(toErrorMessage(part.error));
+			throw new Error(toErrorMessage(part.error), { cause: part.error });
+		}
+		// `streamText` ends quietly when aborted; callers expect a rejection so
+		// they can keep the partial reply as a draft.
+		if (part.type === "abort") {
+			throw new DOMException("Aborted", "AbortError");
+		}
+		if (part.type === "finish") {
+			summary.finishReason = part.finishReason;
+			summary.usage = pickUsage(part.totalUsage);
+			continue;
 		}
 
 		const delta: {
 			content?: string;
 			reasoning?: string;
 			tokenLogprobs?: TokenLogprob[];
+			toolCalls?: ToolCall[];
 		} = {};
 
 		if (part.type === "text-delta" && part.text) {
@@ -69,6 +123,15 @@ export const processFullStream = async (
 		if (part.type === "reasoning-delta" && part.text) {
 			delta.reasoning = part.text;
 		}
+		if (part.type === "tool-call" && part.toolCallId && part.toolName) {
+			const call: ToolCall = {
+				toolCallId: part.toolCallId,
+				toolName: part.toolName,
+				input: part.input ?? {},
+			};
+			delta.toolCalls = [call];
+			summary.toolCalls = [...(summary.toolCalls ?? []), call];
+		}
 		if (part.type === "raw" && parseRawChunk) {
 			const chunk = parseRawChunk(part.rawValue);
 			if (chunk?.tokenLogprobs?.length) {
@@ -86,8 +149,15 @@ export const processFullStream = async (
 			];
 		}
 
-		if (delta.content || delta.reasoning || delta.tokenLogprobs?.length) {
+		if (
+			delta.content ||
+			delta.reasoning ||
+			delta.tokenLogprobs?.length ||
+			delta.toolCalls
+		) {
+			summary.firstChunkAt ??= Date.now();
 			append(delta);
 		}
 	}
+	return summary;
 };
@@ -0,0 +1,159 @@
+import { type JSONSchema7, type ToolSet, jsonSchema, tool } from "ai";
+import type { ToolCall, ToolDefinition } from "../types";
+import {
+	JAVASCRIPT_TOOL_NAME,
+	formatSandboxResult,
+	isSandboxFailure,
+	runInSandbox,
+} from "./jsSandbox";
+
+export const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// Tool rounds allowed after one prompt; a model that keeps calling tools is
+// cut off here instead of looping forever.
+export const MAX_TOOL_STEPS = 8;
+
+// Handlers usually wait on a server, so they get longer than a snippet.
+export const TOOL_HANDLER_TIMEOUT_MS = 30_000;
+
+type ToolHandler = (args: unknown) => Promise<unknown>;
+
+interface ToolOptions {
+	/** Offers the built-in `run_javascript` tool backed by the worker sandbox. */
+	javascript?: boolean;
+}
+
+const javascriptToolSchema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		code: {
+			type: "string",
+			description:
+				"JavaScript to evaluate. Console output and the value of the last expression are returned. There is no DOM or network access.",
+		},
+	},
+	required: ["code"],
+};
+
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as new (
+	...params: string[]
+) => ToolHandler;
+
+export const parseToolParameters = (text: string): JSONSchema7 => {
+	const parsed: unknown = JSON.parse(text.trim() || "{}");
+	if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+		throw new Error("Parameters must be a JSON Schema object");
+	}
+	return parsed as JSONSchema7;
+};
+
+/** Returns a message describing the first problem, or undefined when valid. */
+export const validateToolDefinition = (
+	definition: ToolDefinition,
+	others: ToolDefinition[],
+) => {
+	if (!TOOL_NAME_PATTERN.test(definition.name)) {
+		return "Name must be 1-64 letters, digits, underscores or dashes";
+	}
+	if (definition.name === JAVASCRIPT_TOOL_NAME) {
+		return `"${JAVASCRIPT_TOOL_NAME}" is reserved for the built-in sandbox`;
+	}
+	if (
+		others.some(
+			(other) => other.id !== definition.id && other.name === definition.name,
+		)
+	) {
+		return `A tool named "${definition.name}" already exists`;
+	}
+	try {
+		parseToolParameters(definition.parameters);
+	} catch (error) {
+		return error instanceof Error ? error.message : "Invalid JSON Schema";
+	}
+	try {
+		new AsyncFunction("args", definition.handler);
+	} catch (error) {
+		return error instanceof Error
+			? `Handler: ${error.message}`
+			: "Handler does not compile";
+	}
+	return undefined;
+};
+
+/**
+ * Tools are declared without `execute`, so `streamText` stops after emitting
+ * the calls and the caller records each result as its own tree node.
+ */
+export const buildToolSet = (
+	definitions: ToolDefinition[],
+	{ javascript = false }: ToolOptions = {},
+): ToolSet | undefined => {
+	const tools: ToolSet = Object.fromEntries(
+		definitions
+			.filter((definition) => definition.enabled)
+			.map((definition) => [
+				definition.name,
+				tool({
+					description: definition.description || undefined,
+					inputSchema: jsonSchema(parseToolParameters(definition.parameters)),
+				}),
+			]),
+	);
+	if (javascript) {
+		tools[JAVASCRIPT_TOOL_NAME] = tool({
+			description:
+				"Runs JavaScript in an isolated worker and returns its console output and result.",
+			inputSchema: jsonSchema(javascriptToolSchema),
+		});
+	}
+	return Object.keys(tools).length > 0 ? tools : undefined;
+};
+
+const readCode = (input: unknown) =>
+	typeof input === "object" &&
+	input !== null &&
+	typeof (input as { code?: unknown }).code === "string"
+		? (input as { code: string }).code
+		: undefined;
+
+const handlerSource = (handler: string, input: unknown) =>
+	`(async (args) => {\n${handler}\n})(${JSON.stringify(input) ?? "undefined"})`;
+
+/**
+ * Runs one call in the sandbox, user handlers included, so neither can read
+ * saved API keys. Handlers may reach the network; both stop with the reply.
+ */
+export const runToolCall = async (
+	call: ToolCall,
+	definitions: ToolDefinition[],
+	{
+		javascript = false,
+		abortSignal,
+	}: ToolOptions & { abortSignal?: AbortSignal } = {},
+): Promise<{ output: string; isError: boolean }> => {
+	if (javascript && call.toolName === JAVASCRIPT_TOOL_NAME) {
+		const code = readCode(call.input);
+		if (code === undefined) {
+			return { output: "Missing string argument: code", isError: true };
+		}
+		const result = await runInSandbox(code, { abortSignal });
+		return {
+			output: formatSandboxResult(result),
+			isError: isSandboxFailure(result),
+		};
+	}
+	const definition = definitions.find(
+		(entry) => entry.enabled && entry.name === call.toolName,
+	);
+	if (!definition) {
+		return { output: `Unknown tool: ${call.toolName}`, isError: true };
+	}
+	const result = await runInSandbox(
+		handlerSource(definition.handler, call.input),
+		{ timeoutMs: TOOL_HANDLER_TIMEOUT_MS, allowNetwork: true, abortSignal },
+	);
+	if (isSandboxFailure(result)) {
+		return { output: formatSandboxResult(result), isError: true };
+	}
+	return { output: result.value ?? "", isError: false };
+};
@@ -0,0 +1,122 @@
+import { Button, Text } from "@mantine/core";
+import Markdown from "react-markdown";
+import {
+	formatDuration,
+	getGenerationModelLabel,
+} from "../ai/generationMetadata";
+import type { GenerationMetadata, Message } from "../types";
+
+interface CandidateColumnsProps {
+	candidates: Message[];
+	onPick: (nodeId: string) => void;
+	onStop: (nodeId: string) => void;
+}
+
+const statusLabels: Record<string, string> = {
+	streaming: "Streaming…",
+	draft: "Stopped",
+	error: "Failed",
+};
+
+const formatStats = (generation: GenerationMetadata) => {
+	const stats: string[] = [];
+	if (generation.firstTokenMs !== undefined) {
+		stats.push(`first token ${formatDuration(generation.firstTokenMs)}`);
+	}
+	if (generation.durationMs !== undefined) {
+		stats.push(`total ${formatDuration(generation.durationMs)}`);
+	}
+	const { inputTokens, outputTokens } = generation.usage ?? {};
+	if (outputTokens !== undefined) {
+		stats.push(
+			inputTokens !== undefined
+				? `${inputTokens} → ${outputTokens} tok`
+				: `${outputTokens} tok`,
+		);
+	}
+	return stats.join(" · ");
+};
+
+const getText = (message: Message) =>
+	typeof message.content === "string"
+		? message.content
+		: message.content
+				.filter((part) => part.type === "text")
+				.map((part) => part.text)
+				.join("\n\n");
+
+const CandidateColumns = ({
+	candidates,
+	onPick,
+	onStop,
+}: CandidateColumnsProps) => (
+	<div className="mb-2">
+		<Text size="sm" fw={600} className="mb-1">
+			{candidates.length} replies — pick one to continue
+		</Text>
+		<div className="flex gap-3 overflow-x-auto pb-2">
+			{candidates.map((candidate, index) => {
+				const { uuid, generation, status } = candidate._metadata;
+				const isStreaming = status === "streaming";
+				const reasoning = candidate.reasoning_content?.trim();
+				return (
+					<div
+						key={uuid}
+						className="flex min-w-72 max-w-[65ch] flex-1 flex-col rounded-md border border-solid border-slate-200 bg-white"
+					>
+						<div className="border-0 border-b border-solid border-slate-200 px-3 py-1.5 text-xs">
+							<p className="my-0 flex gap-2 font-semibold text-slate-700">
+								<span>#{index + 1}</span>
+								{generation && (
+									<span className="truncate">
+										{getGenerationModelLabel(generation)}
+									</span>
+								)}
+							</p>
+							<p className="my-0 truncate text-slate-500">
+								{[
+									statusLabels[status ?? ""],
+									generation ? formatStats(generation) : "",
+								]
+									.filter(Boolean)
+									.join(" · ") || "\u00a0"}
+							</p>
+						</div>
+						<div className="max-h-96 flex-1 overflow-y-auto px-3 py-2">
+							{reasoning && (
+								<p className="my-0 mb-2 line-clamp-3 whitespace-pre-wrap text-xs text-slate-500">
+									{reasoning}
+								</p>
+							)}
+							<div className="twp prose prose-sm prose-p:whitespace-pre-wrap">
+								<Markdown remarkPlugins={[]}>
+									{`${getText(candidate)}${isStreaming ? "▪️" : ""}`}
+								</Markdown>
+							</div>
+						</div>
+						<div className="flex justify-end gap-2 border-0 border-t border-solid border-slate-200 px-3 py-1.5">
+							{isStreaming && (
+								<Button
+									size="compact-xs"
+									variant="subtle"
+									onClick={() => onStop(uuid)}
+								>
+									Stop
+								</Button>
+							)}
+							<Button
+								size="compact-xs"
+								variant="light"
+								onClick={() => onPick(uuid)}
+							>
+								Use this reply
+							</Button>
+						</div>
+					</div>
+				);
+			})}
+		</div>
+	</div>
+);
+
+export default CandidateColumns;
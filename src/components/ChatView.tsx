@@ -1,24 +1,46 @@
-import { Textarea, UnstyledButton } from "@mantine/core";
-import { useCallback, useEffect, useMemo, useRef } from "react";
+import { Menu, Popover, Textarea, UnstyledButton } from "@mantine/core";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { ClipboardEvent } from "react";
 import { toast } from "sonner";
 import { twJoin } from "tailwind-merge";
 import { useImmer } from "use-immer";
+import {
+	TRUNCATION_STRATEGY_LABELS,
+	type TrimmedContext,
+} from "../ai/contextTruncation";
+import { estimateMessageTokens, estimatePathTokens } from "../ai/contextWindow";
 import type {
+	ComparisonTarget,
 	Message,
 	MessageContent,
 	MessageContentPart,
+	ModelInfo,
+	ProviderEntry,
 	TokenAlternative,
+	TruncationStrategy,
 } from "../types";
+import CandidateColumns from "./CandidateColumns";
+import ComparisonPicker from "./ComparisonPicker";
+import ContextMeter from "./ContextMeter";
+import ContextPreviewPanel from "./ContextPreviewPanel";
 import MessageItem from "./MessageItem";
 
 const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024;
+const sampleCountOptions = [1, 2, 3, 4, 6, 8];
 
 interface ChatViewProps {
 	messages: Message[];
 	isGenerating: boolean;
 	editingMessageId?: string;
-	onSend: (prompt: MessageContent) => Promise<void> | void;
+	onSend: (
+		prompt: MessageContent,
+		options?: { sampleCount?: number; compare?: boolean },
+	) => Promise<void> | void;
+	onRegenerate?: (messageId: string, modelId?: string) => void;
+	regenerateModels?: ModelInfo[];
+	onRetryFailed?: (messageId: string) => void;
+	onContinue?: (messageId: string) => void;
+	onRunCode?: (messageId: string, code: string) => Promise<void>;
 	onStop: () => void;
 	onDeleteMessage: (nodeId: string) => void;
 	onDetachMessage: (nodeId: string) => void;
@@ -30,11 +52,28 @@ interface ChatViewProps {
 	onEditCancel: () => void;
 	onPromptDirtyChange?: (dirty: boolean) => void;
 	resetSignal?: number;
+	siblingsByNode?: Record<string, string[]>;
+	onSelectSibling?: (nodeId: string) => void;
+	onStarChange?: (nodeId: string, starred: boolean) => void;
+	onRankChange?: (nodeId: string, rank: number | undefined) => void;
+	candidates?: Message[];
+	onPickCandidate?: (nodeId: string) => void;
+	onStopCandidate?: (nodeId: string) => void;
+	providers?: ProviderEntry[];
+	comparisonTargets?: ComparisonTarget[];
+	onComparisonTargetsChange?: (targets: ComparisonTarget[]) => void;
 	onTokenReroll?: (
 		messageId: string,
 		tokenIndex: number,
 		alternative: TokenAlternative,
 	) => Promise<string | void> | string | void;
+	enteredContextLength?: number;
+	reportedContextLength?: number;
+	/** Max output tokens, kept free in the context window for the reply. */
+	reservedTokens?: number;
+	onContextLengthChange?: (contextLength: number | null) => void;
+	truncationStrategy?: TruncationStrategy;
+	onPreviewContext?: (draft: MessageContent) => Promise<TrimmedContext | null>;
 }
 
 const ChatView = ({
@@ -42,6 +81,11 @@ const ChatView = ({
 	isGenerating,
 	editingMessageId,
 	onSend,
+	onRegenerate,
+	regenerateModels,
+	onRetryFailed,
+	onContinue,
+	onRunCode,
 	onStop,
 	onDeleteMessage,
 	onDetachMessage,
@@ -50,10 +94,29 @@ const ChatView = ({
 	onEditCancel,
 	onPromptDirtyChange,
 	resetSignal,
+	siblingsByNode,
+	onSelectSibling,
+	onStarChange,
+	onRankChange,
+	candidates = [],
+	onPickCandidate,
+	onStopCandidate,
+	providers = [],
+	comparisonTargets = [],
+	onComparisonTargetsChange,
 	onTokenReroll,
+	enteredContextLength,
+	reportedContextLength,
+	reservedTokens = 0,
+	onContextLengthChange,
+	truncationStrategy = "none",
+	onPreviewContext,
 }: ChatViewProps) => {
 	const [prompt, setPrompt] = useImmer("");
 	const [attachments, setAttachments] = useImmer<MessageContentPart[]>([]);
+	const [sampleCount, setSampleCount] = useState(1);
+	const [isComparing, setIsComparing] = useState(false);
+	const [isContextPreviewOpen, setIsContextPreviewOpen] = useState(false);
 	const [tokenViewStates, setTokenViewStates] = useImmer<
 		Record<string, boolean>
 	>({});
@@ -169,6 +232,23 @@ const ChatView = ({
 		return parts;
 	}, [attachments, prompt]);
 
+	const pathTokens = useMemo(() => estimatePathTokens(messages), [messages]);
+	const draftTokens = useMemo(() => {
+		const content = buildMessageContent();
+		if (editingMessageId || content === "") {
+			return 0;
+		}
+		return estimateMessageTokens({
+			role: "user",
+			content,
+			_metadata: { uuid: "draft" },
+		});
+	}, [buildMessageContent, editingMessageId]);
+	const contextLength = enteredContextLength ?? reportedContextLength;
+	const willOverflow =
+		contextLength !== undefined &&
+		pathTokens + draftTokens + reservedTokens > contextLength;
+
 	const addImageAttachment = useCallback(
 		(dataUrl: string, mimeType?: string) => {
 			setAttachments((draft) => {
@@ -222,7 +302,12 @@ const ChatView = ({
 			setAttachments([]);
 			return;
 		}
-		onSend(nextContent);
+		if (willOverflow && truncationStrategy === "none") {
+			toast.warning(
+				"This path may not fit the model's context window; the request may fail",
+			);
+		}
+		onSend(nextContent, { sampleCount, compare: isComparing });
 		setPrompt("");
 		setAttachments([]);
 	};
@@ -266,34 +351,77 @@ const ChatView = ({
 					event.preventDefault();
 				}}
 			>
-				{messages.map((message, index) => (
-					<MessageItem
-						key={message._metadata.uuid}
-						message={message}
-						isEditing={editingMessageId === message._metadata.uuid}
-						isLast={index === messages.length - 1}
-						isGenerating={isGenerating}
-						showTokens={tokenViewStates[message._metadata.uuid] ?? false}
-						onEdit={() => onEditStart(message._metadata.uuid)}
-						onDelete={() => onDeleteMessage(message._metadata.uuid)}
-						onDetach={() => onDetachMessage(message._metadata.uuid)}
-						tokenLogprobs={message._metadata.tokenLogprobs}
-						onShowTokensChange={(show) =>
-							handleTokenViewChange(message._metadata.uuid, show)
-						}
-						onRerollToken={
-							onTokenReroll
-								? (index, alternative) =>
-										handleTokenReroll(
-											message._metadata.uuid,
-											index,
-											alternative,
-										)
-								: undefined
-						}
-						disableReroll={!onTokenReroll}
+				{messages.map((message, index) => {
+					const siblings = siblingsByNode?.[message._metadata.uuid];
+					return (
+						<MessageItem
+							key={message._metadata.uuid}
+							message={message}
+							siblings={siblings}
+							onSelectSibling={onSelectSibling}
+							onStarChange={
+								onStarChange
+									? (starred) => onStarChange(message._metadata.uuid, starred)
+									: undefined
+							}
+							onRankChange={
+								onRankChange && message.role === "assistant"
+									? (rank) => onRankChange(message._metadata.uuid, rank)
+									: undefined
+							}
+							isEditing={editingMessageId === message._metadata.uuid}
+							isLast={index === messages.length - 1}
+							isGenerating={isGenerating}
+							showTokens={tokenViewStates[message._metadata.uuid] ?? false}
+							onEdit={() => onEditStart(message._metadata.uuid)}
+							onDelete={() => onDeleteMessage(message._metadata.uuid)}
+							onDetach={() => onDetachMessage(message._metadata.uuid)}
+							onRegenerate={
+								onRegenerate && message.role === "assistant"
+									? (modelId) => onRegenerate(message._metadata.uuid, modelId)
+									: undefined
+							}
+							regenerateModels={regenerateModels}
+							onRetry={
+								onRetryFailed
+									? () => onRetryFailed(message._metadata.uuid)
+									: undefined
+							}
+							onContinue={
+								onContinue && message.role === "assistant"
+									? () => onContinue(message._metadata.uuid)
+									: undefined
+							}
+							onRunCode={
+								onRunCode && message.role === "assistant"
+									? (code) => onRunCode(message._metadata.uuid, code)
+									: undefined
+							}
+							tokenLogprobs={message._metadata.tokenLogprobs}
+							onShowTokensChange={(show) =>
+								handleTokenViewChange(message._metadata.uuid, show)
+							}
+							onRerollToken={
+								onTokenReroll
+									? (index, alternative) =>
+											handleTokenReroll(
+												message._metadata.uuid,
+												index,
+												alternative,
+											)
+									: undefined
+							}
+							disableReroll={!onTokenReroll}
+						/>
+					);
+				})}
+				{candidates.length > 0 && onPickCandidate && (
+					<CandidateColumns
+						candidates={candidates}
+						onPick={onPickCandidate}
+						onStop={(nodeId) => onStopCandidate?.(nodeId)}
 					/>
-				))}
+				)}
 			</div>
 			<div className="relative px-4 py-2">
 				<div className="flex items-center">
@@ -374,6 +502,82 @@ const ChatView = ({
 					>
 						<div className="i-lucide-image w-4 h-4" />
 					</UnstyledButton>
+					{!editingMessageId && onComparisonTargetsChange && (
+						<Popover width={320} position="top" withArrow shadow="md">
+							<Popover.Target>
+								<UnstyledButton
+									className={twJoin(
+										"ml-2 border border-solid rounded-full w-8 h-8 flex items-center justify-center",
+										isComparing
+											? "border-blue-400 text-blue-600"
+											: "border-slate-300",
+									)}
+									title={
+										isComparing
+											? `Comparing ${comparisonTargets.length} models`
+											: "Compare models"
+									}
+								>
+									<div className="i-lucide-columns-2 w-4 h-4" />
+								</UnstyledButton>
+							</Popover.Target>
+							<Popover.Dropdown>
+								<ComparisonPicker
+									providers={providers}
+									targets={comparisonTargets}
+									enabled={isComparing}
+									onEnabledChange={setIsComparing}
+									onTargetsChange={onComparisonTargetsChange}
+								/>
+							</Popover.Dropdown>
+						</Popover>
+					)}
+					{!editingMessageId && (
+						<Menu position="top" withArrow shadow="md">
+							<Menu.Target>
+								<UnstyledButton
+									className={twJoin(
+										"ml-2 border border-solid rounded-full h-8 min-w-8 px-2 flex items-center justify-center text-xs font-medium",
+										sampleCount > 1
+											? "border-blue-400 text-blue-600"
+											: "border-slate-300 text-slate-600",
+									)}
+									title="Number of replies to sample in parallel"
+								>
+									×{sampleCount}
+								</UnstyledButton>
+							</Menu.Target>
+							<Menu.Dropdown>
+								<Menu.Label>Sample replies</Menu.Label>
+								{sampleCountOptions.map((count) => (
+									<Menu.Item
+										key={count}
+										onClick={() => setSampleCount(count)}
+										rightSection={
+											count === sampleCount ? (
+												<span className="i-lucide-check w-4 h-4" />
+											) : null
+										}
+									>
+										{count === 1 ? "1 reply" : `${count} replies`}
+									</Menu.Item>
+								))}
+							</Menu.Dropdown>
+						</Menu>
+					)}
+					<ContextMeter
+						usedTokens={pathTokens + draftTokens}
+						reservedTokens={reservedTokens}
+						enteredContextLength={enteredContextLength}
+						reportedContextLength={reportedContextLength}
+						onContextLengthChange={onContextLengthChange}
+						truncationStrategy={truncationStrategy}
+						onInspect={
+							onPreviewContext && !editingMessageId
+								? () => setIsContextPreviewOpen(true)
+								: undefined
+						}
+					/>
 					<UnstyledButton
 						className="ml-2 border border-solid border-slate-300 rounded-full w-8 h-8 flex items-center justify-center"
 						onClick={handleSubmit}
@@ -422,6 +626,14 @@ const ChatView = ({
 					</div>
 				)}
 			</div>
+			{onPreviewContext && (
+				<ContextPreviewPanel
+					opened={isContextPreviewOpen}
+					onClose={() => setIsContextPreviewOpen(false)}
+					loadPreview={() => onPreviewContext(buildMessageContent())}
+					strategyLabel={TRUNCATION_STRATEGY_LABELS[truncationStrategy]}
+				/>
+			)}
 		</div>
 	);
 };
@@ -0,0 +1,93 @@
+import { Checkbox, MultiSelect, Switch, Text } from "@mantine/core";
+import type { ComparisonTarget, ProviderEntry } from "../types";
+
+interface ComparisonPickerProps {
+	providers: ProviderEntry[];
+	targets: ComparisonTarget[];
+	enabled: boolean;
+	onEnabledChange: (enabled: boolean) => void;
+	onTargetsChange: (targets: ComparisonTarget[]) => void;
+}
+
+const ComparisonPicker = ({
+	providers,
+	targets,
+	enabled,
+	onEnabledChange,
+	onTargetsChange,
+}: ComparisonPickerProps) => {
+	const replaceProviderTargets = (
+		providerId: string,
+		modelIds: Array<string | null>,
+	) => {
+		onTargetsChange([
+			...targets.filter((target) => target.providerId !== providerId),
+			...modelIds.map((modelId) => ({ providerId, modelId })),
+		]);
+	};
+
+	return (
+		<div className="flex flex-col gap-3">
+			<Switch
+				label="Compare models"
+				description="Send each prompt to every selected model"
+				checked={enabled}
+				onChange={(event) => onEnabledChange(event.currentTarget.checked)}
+			/>
+			{providers.length === 0 && (
+				<Text size="xs" c="dimmed">
+					Add providers in Settings to compare them.
+				</Text>
+			)}
+			{providers.map((provider) => {
+				const selected = targets.filter(
+					(target) => target.providerId === provider.id,
+				);
+				if (provider.kind === "built-in") {
+					return (
+						<Checkbox
+							key={provider.id}
+							label={provider.name}
+							checked={selected.length > 0}
+							onChange={(event) =>
+								replaceProviderTargets(
+									provider.id,
+									event.currentTarget.checked ? [null] : [],
+								)
+							}
+						/>
+					);
+				}
+				return (
+					<MultiSelect
+						key={provider.id}
+						size="xs"
+						label={provider.name}
+						placeholder={
+							provider.models?.length
+								? "Select models"
+								: "Sync models in Settings first"
+						}
+						data={(provider.models ?? []).map((model) => ({
+							value: model.id,
+							label: model.name || model.id,
+						}))}
+						value={selected.flatMap((target) =>
+							target.modelId ? [target.modelId] : [],
+						)}
+						onChange={(modelIds) =>
+							replaceProviderTargets(provider.id, modelIds)
+						}
+						searchable
+						comboboxProps={{ withinPortal: false }}
+					/>
+				);
+			})}
+			<Text size="xs" c="dimmed">
+				{targets.length} selected. Replies appear side by side, one per model.
+			</Text>
+		</div>
+	);
+};
+
+export default ComparisonPicker;
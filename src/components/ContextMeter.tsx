@@ -0,0 +1,153 @@
+import {
+	Button,
+	NumberInput,
+	Popover,
+	Progress,
+	Text,
+	UnstyledButton,
+} from "@mantine/core";
+import { twJoin } from "tailwind-merge";
+import { TRUNCATION_STRATEGY_LABELS } from "../ai/contextTruncation";
+import type { TruncationStrategy } from "../types";
+
+interface ContextMeterProps {
+	/** Estimated prompt size: the active path plus the draft. */
+	usedTokens: number;
+	/** Room kept free for the reply (max output tokens). */
+	reservedTokens?: number;
+	/** Set by the user for this model; wins over the reported value. */
+	enteredContextLength?: number;
+	reportedContextLength?: number;
+	onContextLengthChange?: (contextLength: number | null) => void;
+	truncationStrategy?: TruncationStrategy;
+	onInspect?: () => void;
+}
+
+// Above this share of the window the meter turns amber.
+const WARNING_RATIO = 0.8;
+
+const formatTokens = (tokens: number) =>
+	tokens < 1000
+		? String(tokens)
+		: tokens < 10_000
+			? `${(tokens / 1000).toFixed(1)}k`
+			: `${Math.round(tokens / 1000)}k`;
+
+const ContextMeter = ({
+	usedTokens,
+	reservedTokens = 0,
+	enteredContextLength,
+	reportedContextLength,
+	onContextLengthChange,
+	truncationStrategy = "none",
+	onInspect,
+}: ContextMeterProps) => {
+	const contextLength = enteredContextLength ?? reportedContextLength;
+	const neededTokens = usedTokens + reservedTokens;
+	const ratio = contextLength ? neededTokens / contextLength : 0;
+	const level = !contextLength
+		? "unknown"
+		: ratio > 1
+			? "over"
+			: ratio >= WARNING_RATIO
+				? "near"
+				: "ok";
+
+	return (
+		<Popover width={280} position="top" withArrow shadow="md">
+			<Popover.Target>
+				<UnstyledButton
+					className={twJoin(
+						"ml-2 border border-solid rounded-full h-8 px-2 flex items-center gap-1 text-xs font-medium tabular-nums",
+						level === "over"
+							? "border-red-400 text-red-600"
+							: level === "near"
+								? "border-amber-400 text-amber-600"
+								: "border-slate-300 text-slate-600",
+					)}
+					title={
+						level === "over"
+							? "This path will not fit the model's context window"
+							: "Estimated context usage"
+					}
+				>
+					{level === "over" && <span className="i-lucide-triangle-alert" />}
+					{contextLength
+						? `${formatTokens(neededTokens)} / ${formatTokens(contextLength)}`
+						: `~${formatTokens(neededTokens)}`}
+				</UnstyledButton>
+			</Popover.Target>
+			<Popover.Dropdown>
+				<div className="flex flex-col gap-2">
+					<Text size="sm" fw={500}>
+						Context window
+					</Text>
+					{contextLength && (
+						<Progress
+							value={Math.min(100, ratio * 100)}
+							color={
+								level === "over" ? "red" : level === "near" ? "yellow" : "blue"
+							}
+							size="sm"
+						/>
+					)}
+					<dl className="my-0 grid grid-cols-[1fr_auto] gap-x-3 gap-y-1 text-xs">
+						<dt className="text-slate-500">Conversation and draft</dt>
+						<dd className="m-0 tabular-nums">~{usedTokens}</dd>
+						<dt className="text-slate-500">Reserved for the reply</dt>
+						<dd className="m-0 tabular-nums">{reservedTokens}</dd>
+						<dt className="text-slate-500">Window</dt>
+						<dd className="m-0 tabular-nums">
+							{contextLength ?? "unknown"}
+							{contextLength &&
+								(enteredContextLength ? " (yours)" : " (server)")}
+						</dd>
+					</dl>
+					{level === "over" &&
+						(truncationStrategy === "none" ? (
+							<Text size="xs" c="red">
+								This path will not fit. Shorten it, branch from an earlier
+								message or lower max tokens before sending.
+							</Text>
+						) : (
+							<Text size="xs" c="orange">
+								The full path does not fit, so it is cut down with "
+								{TRUNCATION_STRATEGY_LABELS[truncationStrategy]}".
+							</Text>
+						))}
+					<Text size="xs" c="dimmed">
+						Counts are estimates, anchored on the token usage of the latest
+						reply that reported it.
+					</Text>
+					{onContextLengthChange && (
+						<NumberInput
+							size="xs"
+							label="Context window for this model"
+							placeholder={
+								reportedContextLength
+									? `${reportedContextLength} (from server)`
+									: "Not reported"
+							}
+							min={1}
+							step={1024}
+							allowDecimal={false}
+							value={enteredContextLength ?? ""}
+							onChange={(value) => {
+								onContextLengthChange(
+									typeof value === "number" && value > 0 ? value : null,
+								);
+							}}
+						/>
+					)}
+					{onInspect && (
+						<Button size="xs" variant="light" onClick={onInspect}>
+							Inspect context
+						</Button>
+					)}
+				</div>
+			</Popover.Dropdown>
+		</Popover>
+	);
+};
+
+export default ContextMeter;
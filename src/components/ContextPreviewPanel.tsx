@@ -0,0 +1,127 @@
+import { Badge, Drawer, Group, Loader, Text } from "@mantine/core";
+import { useEffect, useRef, useState } from "react";
+import type { TrimmedContext } from "../ai/contextTruncation";
+import type { Message } from "../types";
+
+interface ContextPreviewPanelProps {
+	opened: boolean;
+	onClose: () => void;
+	/** Compiles what the next request would send; null when it cannot. */
+	loadPreview: () => Promise<TrimmedContext | null>;
+	strategyLabel: string;
+}
+
+const describeContent = (message: Message) => {
+	const text =
+		typeof message.content === "string"
+			? message.content
+			: message.content
+					.map((part) => (part.type === "text" ? part.text : "[image]"))
+					.join("\n\n");
+	const calls = (message.tool_calls ?? []).map(
+		(call) => `[calls ${call.toolName}(${JSON.stringify(call.input)})]`,
+	);
+	return [text, ...calls].filter(Boolean).join("\n\n");
+};
+
+const ContextPreviewPanel = ({
+	opened,
+	onClose,
+	loadPreview,
+	strategyLabel,
+}: ContextPreviewPanelProps) => {
+	const [preview, setPreview] = useState<TrimmedContext | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [isLoading, setIsLoading] = useState(false);
+	// Compiled once per opening; the ref keeps later renders from re-running it.
+	const loadPreviewRef = useRef(loadPreview);
+	loadPreviewRef.current = loadPreview;
+
+	useEffect(() => {
+		if (!opened) {
+			return;
+		}
+		let isCurrent = true;
+		setIsLoading(true);
+		setError(null);
+		loadPreviewRef
+			.current()
+			.then((result) => {
+				if (isCurrent) {
+					setPreview(result);
+				}
+			})
+			.catch((reason: unknown) => {
+				if (isCurrent) {
+					setPreview(null);
+					setError(
+						reason instanceof Error
+							? reason.message
+							: "Failed to compile the context",
+					);
+				}
+			})
+			.finally(() => {
+				if (isCurrent) {
+					setIsLoading(false);
+				}
+			});
+		return () => {
+			isCurrent = false;
+		};
+	}, [opened]);
+
+	return (
+		<Drawer
+			opened={opened}
+			onClose={onClose}
+			position="right"
+			size="lg"
+			title="Context to be sent"
+		>
+			<div className="flex flex-col gap-3">
+				<Text size="xs" c="dimmed">
+					Strategy: {strategyLabel}. This is the exact message list the next
+					request sends, your draft included.
+				</Text>
+				{isLoading ? (
+					<Group gap="xs">
+						<Loader size="xs" />
+						<Text size="sm">Compiling context…</Text>
+					</Group>
+				) : error ? (
+					<Text size="sm" c="red">
+						{error}
+					</Text>
+				) : preview ? (
+					<>
+						<Group gap="xs">
+							<Badge variant="light">{preview.messages.length} sent</Badge>
+							{preview.dropped.length > 0 && (
+								<Badge variant="light" color="gray">
+									{preview.dropped.length}{" "}
+									{preview.summary ? "summarized" : "left out"}
+								</Badge>
+							)}
+						</Group>
+						{preview.messages.map((message, index) => (
+							<div
+								key={`${message._metadata.uuid}-${index}`}
+								className="rounded-md border border-solid border-slate-200 px-3 py-2"
+							>
+								<Text size="xs" fw={700} mb={4}>
+									{message.role}
+								</Text>
+								<Text size="sm" className="whitespace-pre-wrap break-words">
+									{describeContent(message) || "(empty)"}
+								</Text>
+							</div>
+						))}
+					</>
+				) : null}
+			</div>
+		</Drawer>
+	);
+};
+
+export default ContextPreviewPanel;
@@ -0,0 +1,146 @@
+import { Button, TextInput, UnstyledButton } from "@mantine/core";
+import { useMemo, useState } from "react";
+import { twJoin } from "tailwind-merge";
+import type { ConversationEntry } from "../types";
+
+interface ConversationSidebarProps {
+	conversations: ConversationEntry[];
+	activeConversationId: string | null;
+	onSelect: (id: string) => void;
+	onCreate: () => void;
+	onRename: (id: string, title: string) => void;
+	onDuplicate: (id: string) => void;
+	onDelete: (id: string) => void;
+}
+
+const timeFormatter = new Intl.DateTimeFormat(undefined, {
+	dateStyle: "short",
+	timeStyle: "short",
+});
+
+const getConversationLabel = (entry: ConversationEntry) =>
+	entry.title || entry.preview || "New conversation";
+
+const ConversationSidebar = ({
+	conversations,
+	activeConversationId,
+	onSelect,
+	onCreate,
+	onRename,
+	onDuplicate,
+	onDelete,
+}: ConversationSidebarProps) => {
+	const [renamingId, setRenamingId] = useState<string | null>(null);
+	const [draftTitle, setDraftTitle] = useState("");
+
+	const sortedConversations = useMemo(
+		() => [...conversations].sort((a, b) => b.updatedAt - a.updatedAt),
+		[conversations],
+	);
+
+	const startRename = (entry: ConversationEntry) => {
+		setRenamingId(entry.id);
+		setDraftTitle(getConversationLabel(entry));
+	};
+
+	const commitRename = () => {
+		const entry = conversations.find((item) => item.id === renamingId);
+		if (entry && draftTitle.trim() !== getConversationLabel(entry)) {
+			onRename(entry.id, draftTitle);
+		}
+		setRenamingId(null);
+	};
+
+	return (
+		<div className="flex h-full w-64 flex-none flex-col border-0 border-r border-solid border-slate-200 bg-slate-50">
+			<div className="p-2">
+				<Button
+					fullWidth
+					size="xs"
+					variant="light"
+					leftSection={<span className="i-lucide-plus w-4 h-4" />}
+					onClick={onCreate}
+				>
+					New conversation
+				</Button>
+			</div>
+			<div className="flex-1 min-h-0 overflow-y-auto px-2 pb-2">
+				{sortedConversations.map((entry) => {
+					const isActive = entry.id === activeConversationId;
+					if (renamingId === entry.id) {
+						return (
+							<TextInput
+								key={entry.id}
+								size="xs"
+								className="mb-1"
+								value={draftTitle}
+								autoFocus
+								onChange={(event) => setDraftTitle(event.currentTarget.value)}
+								onBlur={commitRename}
+								onKeyDown={(event) => {
+									if (event.key === "Enter") {
+										event.preventDefault();
+										commitRename();
+									} else if (event.key === "Escape") {
+										setRenamingId(null);
+									}
+								}}
+								aria-label="Conversation title"
+							/>
+						);
+					}
+					return (
+						<div
+							key={entry.id}
+							className={twJoin(
+								"group mb-1 flex items-center gap-1 rounded-md px-2 py-1.5",
+								isActive ? "bg-blue-100" : "hover:bg-slate-100",
+							)}
+						>
+							<UnstyledButton
+								className="min-w-0 flex-1 text-left"
+								onClick={() => onSelect(entry.id)}
+								onDoubleClick={() => startRename(entry)}
+								aria-current={isActive ? "true" : undefined}
+							>
+								<p className="my-0 truncate text-sm font-medium text-slate-800">
+									{getConversationLabel(entry)}
+								</p>
+								<p className="my-0 text-xs text-slate-500">
+									{timeFormatter.format(entry.updatedAt)}
+								</p>
+							</UnstyledButton>
+							<div className="hidden flex-none items-center gap-1 group-hover:flex">
+								<UnstyledButton
+									className="i-lucide-pencil w-3.5 h-3.5 text-slate-400 hover:text-slate-600"
+									title="Rename conversation"
+									onClick={() => startRename(entry)}
+								/>
+								<UnstyledButton
+									className="i-lucide-copy w-3.5 h-3.5 text-slate-400 hover:text-slate-600"
+									title="Duplicate conversation"
+									onClick={() => onDuplicate(entry.id)}
+								/>
+								<UnstyledButton
+									className="i-lucide-trash w-3.5 h-3.5 text-slate-400 hover:text-rose-600"
+									title="Delete conversation"
+									onClick={() => {
+										if (
+											window.confirm(
+												`Delete "${getConversationLabel(entry)}"? This cannot be undone.`,
+											)
+										) {
+											onDelete(entry.id);
+										}
+									}}
+								/>
+							</div>
+						</div>
+					);
+				})}
+			</div>
+		</div>
+	);
+};
+
+export default ConversationSidebar;
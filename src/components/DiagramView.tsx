@@ -6,19 +6,23 @@ import {
 	type Node,
 	type NodeChange,
 	ReactFlow,
+	type ReactFlowInstance,
 	applyNodeChanges,
 } from "@xyflow/react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import "@xyflow/react/dist/style.css";
 import { twJoin } from "tailwind-merge";
 import { useShallow } from "zustand/react/shallow";
+import { summarizeGeneration } from "../ai/generationMetadata";
 import { useConversationTree } from "../tree/useConversationTree";
+import type { DiagramFocusRequest } from "../types";
 import NodeContextMenu from "./NodeContextMenu";
 
 interface DiagramViewProps {
 	onNodeDoubleClick?: (nodeId: string) => void;
 	onSetActiveNode?: (nodeId: string) => void;
 	onDuplicateFromNode?: (nodeId: string) => void;
+	focusRequest?: DiagramFocusRequest | null;
 }
 
 const boxSize = {
@@ -41,6 +45,7 @@ const DiagramView = ({
 	onNodeDoubleClick,
 	onSetActiveNode,
 	onDuplicateFromNode,
+	focusRequest,
 }: DiagramViewProps) => {
 	const {
 		nodes: treeNodes,
@@ -183,6 +188,10 @@ const DiagramView = ({
 		null,
 	);
 	const pendingNodeRemovalsRef = useRef<Set<string>>(new Set());
+	const [flowInstance, setFlowInstance] = useState<ReactFlowInstance | null>(
+		null,
+	);
+	const handledFocusRef = useRef<number | null>(null);
 	const miniMapColors = useMemo(() => {
 		return {
 			nodeColor: (node: Node) =>
@@ -267,8 +276,13 @@ const DiagramView = ({
 			const label = (
 				<div className="flex items-start gap-2">
 					<div className="min-w-0">
-						<p className="text-xs font-mono uppercase text-slate-500">
-							{dataNode.role}
+						<p className="flex gap-2 text-xs text-slate-500">
+							<span className="font-mono uppercase">{dataNode.role}</span>
+							{dataNode.generation && (
+								<span className="truncate">
+									{summarizeGeneration(dataNode.generation)}
+								</span>
+							)}
 						</p>
 						<p className="mt-1 text-sm font-medium leading-snug text-slate-800 line-clamp-3">
 							{contentText}
@@ -324,6 +338,26 @@ const DiagramView = ({
 		depthByNode,
 	]);
 
+	useEffect(() => {
+		if (
+			!focusRequest ||
+			!flowInstance ||
+			handledFocusRef.current === focusRequest.requestId
+		) {
+			return;
+		}
+		const target = layoutNodes.find((node) => node.id === focusRequest.nodeId);
+		if (!target) {
+			return;
+		}
+		handledFocusRef.current = focusRequest.requestId;
+		void flowInstance.setCenter(
+			target.position.x + boxSize.width / 2,
+			target.position.y + boxSize.height / 2,
+			{ zoom: Math.max(flowInstance.getZoom(), 1), duration: 400 },
+		);
+	}, [flowInstance, focusRequest, layoutNodes]);
+
 	const hasGraphData =
 		layoutNodes.length > 0 || Object.keys(treeNodes).length > 0;
 
@@ -345,6 +379,7 @@ const DiagramView = ({
 						nodes={layoutNodes}
 						edges={layoutEdges}
 						fitView
+						onInit={setFlowInstance}
 						nodesConnectable
 						nodesDraggable={false}
 						zoomOnDoubleClick={false}
@@ -0,0 +1,128 @@
+import { NumberInput, Select, SimpleGrid, Switch, Text } from "@mantine/core";
+import type { DummyFaults } from "../types";
+
+type NumericFaultKey = Exclude<
+	keyof DummyFaults,
+	"finishReason" | "malformedLogprobs"
+>;
+
+interface DummyFaultSettingsProps {
+	faults: DummyFaults;
+	onChange: (faults: DummyFaults) => void;
+}
+
+const numericFields: Array<{
+	key: NumericFaultKey;
+	label: string;
+	placeholder: string;
+	min: number;
+	max?: number;
+}> = [
+	{
+		key: "failBeforeStartStatus",
+		label: "Fail before first token (HTTP status)",
+		placeholder: "e.g. 429 or 500",
+		min: 400,
+		max: 599,
+	},
+	{
+		key: "failAfterTokens",
+		label: "Fail after N tokens",
+		placeholder: "Off",
+		min: 0,
+	},
+	{
+		key: "stallAfterTokens",
+		label: "Stall after N tokens",
+		placeholder: "Off",
+		min: 0,
+	},
+	{
+		key: "truncateAfterTokens",
+		label: "Cut off after N tokens",
+		placeholder: "Off",
+		min: 0,
+	},
+];
+
+const finishReasons: Array<{
+	label: string;
+	value: NonNullable<DummyFaults["finishReason"]>;
+}> = [
+	{ label: "length", value: "length" },
+	{ label: "content-filter", value: "content-filter" },
+	{ label: "error", value: "error" },
+	{ label: "other", value: "other" },
+	{ label: "unknown", value: "unknown" },
+];
+
+const DummyFaultSettings = ({ faults, onChange }: DummyFaultSettingsProps) => {
+	const update = <K extends keyof DummyFaults>(
+		key: K,
+		value: DummyFaults[K] | undefined,
+	) => {
+		const next = { ...faults };
+		if (value === undefined) {
+			delete next[key];
+		} else {
+			next[key] = value;
+		}
+		onChange(next);
+	};
+
+	return (
+		<div className="flex flex-col gap-2">
+			<div>
+				<Text size="sm" fw={500}>
+					Fault injection
+				</Text>
+				<Text size="xs" c="dimmed">
+					Break this provider on purpose to check error handling. Token counts
+					include reasoning; a shorter reply triggers the fault where it would
+					have finished. Leave a field empty to turn it off.
+				</Text>
+			</div>
+			<SimpleGrid cols={2} spacing="xs" verticalSpacing="xs">
+				{numericFields.map((field) => (
+					<NumberInput
+						key={field.key}
+						size="xs"
+						label={field.label}
+						placeholder={field.placeholder}
+						min={field.min}
+						max={field.max}
+						allowDecimal={false}
+						value={faults[field.key] ?? ""}
+						onChange={(value) => {
+							update(field.key, typeof value === "number" ? value : undefined);
+						}}
+					/>
+				))}
+				<Select
+					size="xs"
+					label="Finish reason"
+					placeholder="As generated"
+					data={finishReasons}
+					value={faults.finishReason ?? null}
+					onChange={(value) => {
+						update(
+							"finishReason",
+							finishReasons.find((entry) => entry.value === value)?.value,
+						);
+					}}
+					clearable
+				/>
+			</SimpleGrid>
+			<Switch
+				size="xs"
+				label="Send malformed logprobs"
+				checked={faults.malformedLogprobs ?? false}
+				onChange={(event) => {
+					update("malformedLogprobs", event.currentTarget.checked || undefined);
+				}}
+			/>
+		</div>
+	);
+};
+
+export default DummyFaultSettings;
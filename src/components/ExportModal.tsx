@@ -0,0 +1,188 @@
+import {
+	Button,
+	Checkbox,
+	Group,
+	Modal,
+	SegmentedControl,
+	Stack,
+	Text,
+} from "@mantine/core";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useSettingsStore } from "../state/useSettingsStore";
+import { useConversationTree } from "../tree/useConversationTree";
+import {
+	type ExportFormat,
+	type ExportScope,
+	buildPathThread,
+	buildTreeThread,
+	exportConversationToFile,
+	renderHtmlExport,
+	renderMarkdownExport,
+} from "../utils/conversationExport";
+import {
+	buildPreferenceRecords,
+	buildSftRecords,
+	toJsonl,
+} from "../utils/datasetExport";
+
+interface ExportModalProps {
+	opened: boolean;
+	onClose: () => void;
+	title: string;
+}
+
+const formatOptions: Array<{ label: string; value: ExportFormat }> = [
+	{ label: "HTML page", value: "html" },
+	{ label: "Markdown", value: "markdown" },
+	{ label: "SFT JSONL", value: "sft-jsonl" },
+	{ label: "DPO JSONL", value: "dpo-jsonl" },
+];
+
+const ExportModal = ({ opened, onClose, title }: ExportModalProps) => {
+	const heatmapTheme = useSettingsStore((state) => state.heatmapTheme);
+	const enableTokenHeatmap = useSettingsStore(
+		(state) => state.enableTokenHeatmap,
+	);
+	const [scope, setScope] = useState<ExportScope>("active-path");
+	const [format, setFormat] = useState<ExportFormat>("html");
+	const [withHeatmap, setWithHeatmap] = useState(enableTokenHeatmap);
+	const [starredOnly, setStarredOnly] = useState(false);
+	const isDataset = format === "sft-jsonl" || format === "dpo-jsonl";
+
+	const exportDataset = () => {
+		const { compilePathTo, nodes } = useConversationTree.getState();
+		const records =
+			format === "sft-jsonl"
+				? buildSftRecords(nodes, compilePathTo, { starredOnly })
+				: buildPreferenceRecords(nodes, compilePathTo);
+		if (records.length === 0) {
+			toast.error(
+				format === "dpo-jsonl"
+					? "No ranked sibling replies to pair yet"
+					: starredOnly
+						? "No starred paths with a reply yet"
+						: "No paths with a reply yet",
+			);
+			return false;
+		}
+		exportConversationToFile(toJsonl(records), format);
+		toast.success(
+			`Exported ${records.length} ${records.length === 1 ? "record" : "records"}`,
+		);
+		return true;
+	};
+
+	const exportDocument = () => {
+		const { compileActive, nodes } = useConversationTree.getState();
+		const thread =
+			scope === "tree"
+				? buildTreeThread(nodes)
+				: buildPathThread(compileActive());
+		if (thread.messages.length === 0 && thread.branches.length === 0) {
+			toast.error("Nothing to export yet");
+			return false;
+		}
+		const contents =
+			format === "html"
+				? renderHtmlExport(thread, {
+						title,
+						heatmapTheme: withHeatmap ? heatmapTheme : undefined,
+					})
+				: renderMarkdownExport(thread, { title });
+		exportConversationToFile(contents, format);
+		toast.success(
+			scope === "tree" ? "Exported conversation tree" : "Exported active path",
+		);
+		return true;
+	};
+
+	const handleExport = () => {
+		if (isDataset ? exportDataset() : exportDocument()) {
+			onClose();
+		}
+	};
+
+	return (
+		<Modal opened={opened} onClose={onClose} title="Export conversation">
+			<Stack gap="sm">
+				<div>
+					<Text size="sm" fw={500} mb={4}>
+						Format
+					</Text>
+					<SegmentedControl
+						fullWidth
+						value={format}
+						onChange={(value) => setFormat(value as ExportFormat)}
+						data={formatOptions}
+					/>
+				</div>
+				{format === "sft-jsonl" && (
+					<>
+						<SegmentedControl
+							fullWidth
+							value={starredOnly ? "starred" : "all"}
+							onChange={(value) => setStarredOnly(value === "starred")}
+							data={[
+								{ label: "Every root-to-leaf path", value: "all" },
+								{ label: "Starred paths only", value: "starred" },
+							]}
+						/>
+						<Text size="xs" c="dimmed">
+							One {"{messages}"} line per path, in the OpenAI fine-tuning
+							format. Each path ends at its last reply, and paths with failed
+							replies are skipped. Star a message to mark the path leading to
+							it.
+						</Text>
+					</>
+				)}
+				{format === "dpo-jsonl" && (
+					<Text size="xs" c="dimmed">
+						One {"{prompt, chosen, rejected}"} line for every two sibling
+						replies with different ranks. Rank replies with the control next to
+						the branch switcher; unranked replies are left out.
+					</Text>
+				)}
+				{!isDataset && (
+					<>
+						<div>
+							<Text size="sm" fw={500} mb={4}>
+								Messages
+							</Text>
+							<SegmentedControl
+								fullWidth
+								value={scope}
+								onChange={(value) => setScope(value as ExportScope)}
+								data={[
+									{ label: "Active path", value: "active-path" },
+									{ label: "Whole tree", value: "tree" },
+								]}
+							/>
+						</div>
+						<Checkbox
+							label="Color tokens by probability"
+							description="Uses the heatmap theme from Settings. Only replies with logprobs are colored."
+							checked={withHeatmap && format === "html"}
+							disabled={format !== "html"}
+							onChange={(event) => setWithHeatmap(event.currentTarget.checked)}
+						/>
+						<Text size="xs" c="dimmed">
+							{scope === "tree"
+								? "Every branch is written out, with forks as nested sections."
+								: "Only the messages currently shown in the chat are written out."}{" "}
+							Images are embedded and reasoning is collapsible.
+						</Text>
+					</>
+				)}
+				<Group justify="flex-end">
+					<Button variant="default" onClick={onClose}>
+						Cancel
+					</Button>
+					<Button onClick={handleExport}>Download</Button>
+				</Group>
+			</Stack>
+		</Modal>
+	);
+};
+
+export default ExportModal;
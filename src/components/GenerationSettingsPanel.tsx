@@ -0,0 +1,145 @@
+import {
+	Button,
+	Group,
+	NumberInput,
+	SimpleGrid,
+	TagsInput,
+	Text,
+} from "@mantine/core";
+import type { GenerationSettings, ProviderKind } from "../types";
+
+type NumericSettingKey = Exclude<keyof GenerationSettings, "stopSequences">;
+
+interface GenerationSettingsPanelProps {
+	settings: GenerationSettings;
+	providerKind: ProviderKind;
+	onChange: (settings: GenerationSettings) => void;
+	onReset: () => void;
+}
+
+const numericFields: Array<{
+	key: NumericSettingKey;
+	label: string;
+	min?: number;
+	max?: number;
+	step: number;
+	allowDecimal?: boolean;
+}> = [
+	{ key: "temperature", label: "Temperature", min: 0, max: 2, step: 0.05 },
+	{ key: "topP", label: "Top P", min: 0, max: 1, step: 0.05 },
+	{ key: "topK", label: "Top K", min: 0, step: 1, allowDecimal: false },
+	{ key: "minP", label: "Min P", min: 0, max: 1, step: 0.01 },
+	{
+		key: "presencePenalty",
+		label: "Presence penalty",
+		min: -2,
+		max: 2,
+		step: 0.1,
+	},
+	{
+		key: "frequencyPenalty",
+		label: "Frequency penalty",
+		min: -2,
+		max: 2,
+		step: 0.1,
+	},
+	{
+		key: "maxOutputTokens",
+		label: "Max tokens",
+		min: 1,
+		step: 1,
+		allowDecimal: false,
+	},
+	{ key: "seed", label: "Seed", step: 1, allowDecimal: false },
+	{
+		key: "topLogprobs",
+		label: "Top logprobs",
+		min: 0,
+		max: 20,
+		step: 1,
+		allowDecimal: false,
+	},
+];
+
+// The Prompt API only exposes temperature and top-k.
+const builtInFields: ReadonlySet<keyof GenerationSettings> = new Set([
+	"temperature",
+	"topK",
+]);
+
+const GenerationSettingsPanel = ({
+	settings,
+	providerKind,
+	onChange,
+	onReset,
+}: GenerationSettingsPanelProps) => {
+	const isSupported = (key: keyof GenerationSettings) =>
+		providerKind !== "built-in" || builtInFields.has(key);
+
+	const update = <K extends keyof GenerationSettings>(
+		key: K,
+		value: GenerationSettings[K] | undefined,
+	) => {
+		const next = { ...settings };
+		if (value === undefined) {
+			delete next[key];
+		} else {
+			next[key] = value;
+		}
+		onChange(next);
+	};
+
+	return (
+		<div className="flex flex-col gap-3">
+			<Text size="xs" c="dimmed">
+				Leave a field empty to use the server default. Settings are saved for
+				the selected model.
+				{providerKind === "dummy"
+					? " The dummy provider ignores sampling parameters."
+					: providerKind === "replay"
+						? " Replays play back what was recorded and ignore these settings."
+						: ""}
+			</Text>
+			<SimpleGrid cols={2} spacing="xs" verticalSpacing="xs">
+				{numericFields.map((field) => (
+					<NumberInput
+						key={field.key}
+						size="xs"
+						label={field.label}
+						min={field.min}
+						max={field.max}
+						step={field.step}
+						allowDecimal={field.allowDecimal ?? true}
+						disabled={!isSupported(field.key)}
+						value={settings[field.key] ?? ""}
+						onChange={(value) => {
+							// Partial input such as "0." or "-" arrives as a string.
+							if (typeof value === "number") {
+								update(field.key, value);
+							} else if (value === "") {
+								update(field.key, undefined);
+							}
+						}}
+					/>
+				))}
+			</SimpleGrid>
+			<TagsInput
+				size="xs"
+				label="Stop sequences"
+				placeholder="Type and press Enter"
+				disabled={!isSupported("stopSequences")}
+				value={settings.stopSequences ?? []}
+				onChange={(value) => {
+					update("stopSequences", value.length > 0 ? value : undefined);
+				}}
+			/>
+			<Group justify="flex-end">
+				<Button size="xs" variant="subtle" onClick={onReset}>
+					Reset to defaults
+				</Button>
+			</Group>
+		</div>
+	);
+};
+
+export default GenerationSettingsPanel;
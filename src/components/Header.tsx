@@ -1,5 +1,17 @@
-import { SegmentedControl, Select, UnstyledButton } from "@mantine/core";
-import type { AppView, ModelInfo } from "../types";
+import {
+	Popover,
+	SegmentedControl,
+	Select,
+	UnstyledButton,
+} from "@mantine/core";
+import type {
+	AppView,
+	GenerationSettings,
+	ModelInfo,
+	ProviderKind,
+} from "../types";
+import GenerationSettingsPanel from "./GenerationSettingsPanel";
+import HistoryPanel from "./HistoryPanel";
 
 interface HeaderProps {
 	models: ModelInfo[];
@@ -8,12 +20,23 @@ interface HeaderProps {
 	modelSelectorDisabled?: boolean;
 	modelPlaceholder?: string;
 	modelStatus?: string;
+	providerKind: ProviderKind;
+	generationSettings: GenerationSettings;
+	onGenerationSettingsChange: (settings: GenerationSettings) => void;
+	onGenerationSettingsReset: () => void;
 	view: AppView;
 	onViewChange: (value: AppView) => void;
 	onClear: () => void;
+	onUndo: () => void;
+	onRedo: () => void;
+	onGoToHistoryEntry: (entryId: string | null) => void;
+	onOpenSearch: () => void;
 	onImport: () => void;
 	onExport: () => void;
+	onShare: () => void;
 	onOpenSettings: () => void;
+	isSidebarOpen: boolean;
+	onToggleSidebar: () => void;
 }
 
 const viewOptions: Array<{
@@ -33,15 +56,31 @@ const Header = ({
 	modelSelectorDisabled = false,
 	modelPlaceholder,
 	modelStatus,
+	providerKind,
+	generationSettings,
+	onGenerationSettingsChange,
+	onGenerationSettingsReset,
 	view,
 	onViewChange,
 	onClear,
+	onUndo,
+	onRedo,
+	onGoToHistoryEntry,
+	onOpenSearch,
 	onImport,
 	onExport,
+	onShare,
 	onOpenSettings,
+	isSidebarOpen,
+	onToggleSidebar,
 }: HeaderProps) => (
 	<div className="flex items-center px-4 py-2">
 		<div className="flex items-center gap-2">
+			<UnstyledButton
+				className={`${isSidebarOpen ? "i-lucide-panel-left-close" : "i-lucide-panel-left-open"} w-5 h-5`}
+				title={isSidebarOpen ? "Hide conversations" : "Show conversations"}
+				onClick={onToggleSidebar}
+			/>
 			<h1 className="text-xl font-bold font-mono">iaslate</h1>
 			{modelSelectorDisabled ? (
 				<div className="flex h-[2.25rem] w-64 items-center rounded-md border border-solid border-slate-300 bg-white px-3 text-sm leading-[1.1] text-slate-900 shadow-xs dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100">
@@ -61,6 +100,22 @@ const Header = ({
 					aria-label="Select a model"
 				/>
 			)}
+			<Popover width={340} position="bottom-start" withArrow shadow="md">
+				<Popover.Target>
+					<UnstyledButton
+						className="i-lucide-sliders-horizontal w-5 h-5 text-slate-600"
+						title="Generation settings"
+					/>
+				</Popover.Target>
+				<Popover.Dropdown>
+					<GenerationSettingsPanel
+						settings={generationSettings}
+						providerKind={providerKind}
+						onChange={onGenerationSettingsChange}
+						onReset={onGenerationSettingsReset}
+					/>
+				</Popover.Dropdown>
+			</Popover>
 		</div>
 		<div className="ml-4">
 			<SegmentedControl
@@ -90,6 +145,26 @@ const Header = ({
 			/>
 		</div>
 		<div className="ml-auto flex gap-4">
+			<UnstyledButton
+				className="i-lucide-search w-5 h-5"
+				title="Search conversation"
+				onClick={onOpenSearch}
+			/>
+			<Popover width={300} position="bottom-end" withArrow shadow="md">
+				<Popover.Target>
+					<UnstyledButton
+						className="i-lucide-history w-5 h-5"
+						title="Edit history"
+					/>
+				</Popover.Target>
+				<Popover.Dropdown>
+					<HistoryPanel
+						onUndo={onUndo}
+						onRedo={onRedo}
+						onGoTo={onGoToHistoryEntry}
+					/>
+				</Popover.Dropdown>
+			</Popover>
 			<UnstyledButton
 				className="i-lucide-eraser w-5 h-5"
 				title="Clear conversation"
@@ -97,7 +172,7 @@ const Header = ({
 			/>
 			<UnstyledButton
 				className="i-lucide-file-input w-5 h-5"
-				title="Import from JSON"
+				title="Import snapshot, chat JSON or JSONL"
 				onClick={onImport}
 			/>
 			<UnstyledButton
@@ -105,6 +180,11 @@ const Header = ({
 				title="Export to JSON"
 				onClick={onExport}
 			/>
+			<UnstyledButton
+				className="i-lucide-share w-5 h-5"
+				title="Export as HTML, Markdown or training data"
+				onClick={onShare}
+			/>
 			<UnstyledButton
 				className="i-lucide-settings w-5 h-5"
 				title="Settings"
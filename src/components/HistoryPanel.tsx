@@ -0,0 +1,92 @@
+import { Button, Group, Text, UnstyledButton } from "@mantine/core";
+import { twJoin } from "tailwind-merge";
+import { useShallow } from "zustand/react/shallow";
+import { useConversationTree } from "../tree/useConversationTree";
+
+interface HistoryPanelProps {
+	onUndo: () => void;
+	onRedo: () => void;
+	onGoTo: (entryId: string | null) => void;
+}
+
+const timeFormatter = new Intl.DateTimeFormat(undefined, {
+	timeStyle: "medium",
+});
+
+const HistoryPanel = ({ onUndo, onRedo, onGoTo }: HistoryPanelProps) => {
+	const { past, future } = useConversationTree(
+		useShallow((state) => ({ past: state.past, future: state.future })),
+	);
+
+	return (
+		<div className="flex flex-col gap-2">
+			<Group justify="space-between">
+				<Text size="sm" fw={600}>
+					History
+				</Text>
+				<Group gap="xs">
+					<Button
+						size="compact-xs"
+						variant="light"
+						onClick={onUndo}
+						disabled={past.length === 0}
+						title="Undo (Ctrl+Z)"
+					>
+						Undo
+					</Button>
+					<Button
+						size="compact-xs"
+						variant="light"
+						onClick={onRedo}
+						disabled={future.length === 0}
+						title="Redo (Ctrl+Shift+Z)"
+					>
+						Redo
+					</Button>
+				</Group>
+			</Group>
+			<div className="max-h-80 overflow-y-auto">
+				<UnstyledButton
+					className={twJoin(
+						"block w-full rounded px-2 py-1 text-left text-xs",
+						past.length === 0
+							? "bg-blue-100 font-semibold text-slate-800"
+							: "text-slate-600 hover:bg-slate-100",
+					)}
+					onClick={() => onGoTo(null)}
+				>
+					Start of history
+				</UnstyledButton>
+				{past.map((entry, index) => (
+					<UnstyledButton
+						key={entry.id}
+						className={twJoin(
+							"flex w-full justify-between gap-2 rounded px-2 py-1 text-left text-xs",
+							index === past.length - 1
+								? "bg-blue-100 font-semibold text-slate-800"
+								: "text-slate-600 hover:bg-slate-100",
+						)}
+						onClick={() => onGoTo(entry.id)}
+					>
+						<span>{entry.label}</span>
+						<span className="text-slate-400">
+							{timeFormatter.format(entry.at)}
+						</span>
+					</UnstyledButton>
+				))}
+				{future.map((entry) => (
+					<UnstyledButton
+						key={entry.id}
+						className="flex w-full justify-between gap-2 rounded px-2 py-1 text-left text-xs text-slate-400 hover:bg-slate-100"
+						onClick={() => onGoTo(entry.id)}
+					>
+						<span className="line-through">{entry.label}</span>
+						<span>{timeFormatter.format(entry.at)}</span>
+					</UnstyledButton>
+				))}
+			</div>
+		</div>
+	);
+};
+
+export default HistoryPanel;
@@ -0,0 +1,121 @@
+import { Badge, Button, Group, Modal, Stack, Text } from "@mantine/core";
+import type { TreeNode } from "../tree/types";
+import type { ImportedConversation, SkippedLine } from "../utils/chatImport";
+
+interface ImportPreviewModalProps {
+	opened: boolean;
+	formatLabel: string;
+	itemLabel: string;
+	conversations: ImportedConversation[];
+	skipped: SkippedLine[];
+	onCancel: () => void;
+	onConfirm: () => void;
+}
+
+// Enough to recognize a dataset without rendering thousands of rows.
+const PREVIEW_LIMIT = 20;
+
+const nodeText = (node: TreeNode) =>
+	typeof node.content === "string"
+		? node.content
+		: node.content
+				.map((part) => (part.type === "text" ? part.text : "[image]"))
+				.join(" ");
+
+const describeConversation = (conversation: ImportedConversation) => {
+	if (conversation.title) {
+		return conversation.title;
+	}
+	const opening =
+		conversation.nodes.find((node) => node.role === "user") ??
+		conversation.nodes[0];
+	return opening ? nodeText(opening).trim() || "(empty)" : "(empty)";
+};
+
+const ImportPreviewModal = ({
+	opened,
+	formatLabel,
+	itemLabel,
+	conversations,
+	skipped,
+	onCancel,
+	onConfirm,
+}: ImportPreviewModalProps) => {
+	const messageCount = conversations.reduce(
+		(total, conversation) => total + conversation.nodes.length,
+		0,
+	);
+	return (
+		<Modal opened={opened} onClose={onCancel} title="Import preview" size="lg">
+			<Stack gap="sm">
+				<Group gap="xs">
+					<Badge variant="light">{formatLabel}</Badge>
+					<Badge variant="light" color="gray">
+						{conversations.length}{" "}
+						{conversations.length === 1 ? "conversation" : "conversations"}
+					</Badge>
+					<Badge variant="light" color="gray">
+						{messageCount} messages
+					</Badge>
+					{skipped.length > 0 && (
+						<Badge variant="light" color="orange">
+							{skipped.length} skipped
+						</Badge>
+					)}
+				</Group>
+				{skipped.length > 0 && (
+					<div className="rounded-md border border-solid border-orange-200 bg-orange-50 px-3 py-2">
+						{skipped.slice(0, 5).map((entry) => (
+							<Text key={entry.line} size="xs">
+								{itemLabel} {entry.line}: {entry.reason}
+							</Text>
+						))}
+						{skipped.length > 5 && (
+							<Text size="xs" c="dimmed">
+								…and {skipped.length - 5} more
+							</Text>
+						)}
+					</div>
+				)}
+				<div className="flex flex-col gap-1 max-h-80 overflow-y-auto">
+					{conversations.slice(0, PREVIEW_LIMIT).map((conversation, index) => (
+						<div
+							key={conversation.nodes[0]?.id ?? index}
+							className="flex items-baseline gap-2 rounded-md border border-solid border-slate-200 px-3 py-1.5"
+						>
+							<Text size="xs" c="dimmed" className="shrink-0 tabular-nums">
+								{conversation.line !== undefined
+									? `${itemLabel} ${conversation.line}`
+									: `#${index + 1}`}
+							</Text>
+							<Text size="sm" lineClamp={1} className="flex-1">
+								{describeConversation(conversation)}
+							</Text>
+							<Text size="xs" c="dimmed" className="shrink-0">
+								{conversation.nodes.length} msgs
+							</Text>
+						</div>
+					))}
+					{conversations.length > PREVIEW_LIMIT && (
+						<Text size="xs" c="dimmed">
+							…and {conversations.length - PREVIEW_LIMIT} more
+						</Text>
+					)}
+				</div>
+				<Text size="xs" c="dimmed">
+					{conversations.length > 1 &&
+						"Each conversation starts from its own root. "}
+					Importing replaces the tree of the current conversation.
+				</Text>
+				<Group justify="flex-end">
+					<Button variant="default" onClick={onCancel}>
+						Cancel
+					</Button>
+					<Button onClick={onConfirm}>Import</Button>
+				</Group>
+			</Stack>
+		</Modal>
+	);
+};
+
+export default ImportPreviewModal;
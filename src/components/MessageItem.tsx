@@ -1,15 +1,22 @@
-import { Button, Popover, Text, UnstyledButton } from "@mantine/core";
-import { useState } from "react";
-import Markdown from "react-markdown";
+import { Button, Menu, Popover, Text, UnstyledButton } from "@mantine/core";
+import { useMemo, useRef, useState } from "react";
+import Markdown, { type Components } from "react-markdown";
 import { toast } from "sonner";
 import { twJoin } from "tailwind-merge";
+import {
+	describeGeneration,
+	summarizeGeneration,
+} from "../ai/generationMetadata";
 import type {
 	Message,
 	MessageContentPart,
+	ModelInfo,
 	TokenAlternative,
 	TokenLogprob,
 } from "../types";
+import RunnableCodeBlock from "./RunnableCodeBlock";
 import TokenInlineRenderer from "./TokenInlineRenderer";
+import ToolPane from "./ToolPane";
 
 interface MessageItemProps {
 	message: Message;
@@ -20,10 +27,20 @@ interface MessageItemProps {
 	onEdit: () => void;
 	onDelete: () => void;
 	onDetach: () => void;
+	onRegenerate?: (modelId?: string) => void;
+	regenerateModels?: ModelInfo[];
+	onRetry?: () => void;
+	onContinue?: () => void;
 	tokenLogprobs?: TokenLogprob[];
 	onRerollToken?: (tokenIndex: number, replacement: TokenAlternative) => void;
 	disableReroll?: boolean;
 	onShowTokensChange?: (show: boolean) => void;
+	siblings?: string[];
+	onSelectSibling?: (nodeId: string) => void;
+	onStarChange?: (starred: boolean) => void;
+	/** Ranks the reply among its siblings; shown only when it has some. */
+	onRankChange?: (rank: number | undefined) => void;
+	onRunCode?: (code: string) => Promise<void>;
 }
 
 const MessageItem = ({
@@ -35,10 +52,19 @@ const MessageItem = ({
 	onEdit,
 	onDelete,
 	onDetach,
+	onRegenerate,
+	regenerateModels = [],
+	onRetry,
+	onContinue,
 	tokenLogprobs,
 	onRerollToken,
 	disableReroll = false,
 	onShowTokensChange,
+	siblings,
+	onSelectSibling,
+	onStarChange,
+	onRankChange,
+	onRunCode,
 }: MessageItemProps) => {
 	const [isHovered, setIsHovered] = useState(false);
 	const [hasBeenClicked, setHasBeenClicked] = useState(false);
@@ -54,12 +80,48 @@ const MessageItem = ({
 	};
 	const toggleTokenView = () => setTokenView(!isTokenView);
 	const reasoningText = message.reasoning_content?.trim();
+	const generation = message._metadata.generation;
+	const toolCalls = message.tool_calls ?? [];
+	const toolResult = message.role === "tool" ? message.tool_result : undefined;
+	const isFailed =
+		message.role === "assistant" && message._metadata.status === "error";
+	// A stable renderer keeps code blocks mounted (and their run state) across
+	// re-renders, while the ref always calls the latest handler.
+	const runCodeRef = useRef(onRunCode);
+	runCodeRef.current = onRunCode;
+	const runnableComponents = useMemo<Components>(
+		() => ({
+			pre: (props) => (
+				<RunnableCodeBlock
+					{...props}
+					onRun={async (code) => {
+						await runCodeRef.current?.(code);
+					}}
+				/>
+			),
+		}),
+		[],
+	);
+	const isStarred = Boolean(message._metadata.starred);
+	const rank = message._metadata.rank;
+	const siblingIndex = siblings?.indexOf(message._metadata.uuid) ?? -1;
+	const showSiblingNavigator =
+		siblings !== undefined && siblings.length > 1 && siblingIndex !== -1;
+	const selectSiblingAt = (index: number) => {
+		const targetId = siblings?.[index];
+		if (targetId && onSelectSibling) {
+			onSelectSibling(targetId);
+		}
+	};
 	const contentParts: MessageContentPart[] =
 		typeof message.content === "string"
 			? message.content.length > 0
 				? [{ type: "text", text: message.content } satisfies MessageContentPart]
 				: []
 			: message.content;
+	const hasText = contentParts.some(
+		(part) => part.type === "text" && part.text.trim().length > 0,
+	);
 	const rerollDisabled =
 		disableReroll || !onRerollToken || Boolean(message.reasoning_content);
 	const tokensWithIndex =
@@ -118,6 +180,112 @@ const MessageItem = ({
 					>
 						{message.role}
 					</p>
+					{showSiblingNavigator && (
+						<div className="flex items-center text-xs text-slate-500">
+							<UnstyledButton
+								className="px-1 text-slate-400 hover:text-slate-600 disabled:opacity-40"
+								onClick={() => selectSiblingAt(siblingIndex - 1)}
+								disabled={siblingIndex === 0 || !onSelectSibling}
+								title="Previous branch"
+							>
+								‹
+							</UnstyledButton>
+							<span className="tabular-nums">
+								{siblingIndex + 1}/{siblings.length}
+							</span>
+							<UnstyledButton
+								className="px-1 text-slate-400 hover:text-slate-600 disabled:opacity-40"
+								onClick={() => selectSiblingAt(siblingIndex + 1)}
+								disabled={
+									siblingIndex === siblings.length - 1 || !onSelectSibling
+								}
+								title="Next branch"
+							>
+								›
+							</UnstyledButton>
+						</div>
+					)}
+					{onRankChange &&
+						showSiblingNavigator &&
+						(rank !== undefined || hasBeenClicked || isHovered) && (
+							<Menu position="bottom-start" withArrow shadow="md">
+								<Menu.Target>
+									{rank !== undefined ? (
+										<UnstyledButton
+											className="text-xs font-medium tabular-nums text-amber-600 hover:text-amber-700"
+											title="Change rank among sibling replies"
+										>
+											#{rank}
+										</UnstyledButton>
+									) : (
+										<UnstyledButton
+											className="i-lucide-list-ordered text-slate-400 hover:text-slate-600 transition"
+											title="Rank among sibling replies"
+										/>
+									)}
+								</Menu.Target>
+								<Menu.Dropdown>
+									<Menu.Label>Rank among {siblings.length} replies</Menu.Label>
+									{siblings.map((siblingId, index) => (
+										<Menu.Item
+											key={siblingId}
+											onClick={() => onRankChange(index + 1)}
+										>
+											#{index + 1}
+											{index === 0 ? " (best)" : ""}
+										</Menu.Item>
+									))}
+									{rank !== undefined && (
+										<Menu.Item
+											color="red"
+											onClick={() => onRankChange(undefined)}
+										>
+											Clear rank
+										</Menu.Item>
+									)}
+								</Menu.Dropdown>
+							</Menu>
+						)}
+					{onStarChange && (isStarred || hasBeenClicked || isHovered) && (
+						<UnstyledButton
+							className={twJoin(
+								"i-lucide-star transition",
+								isStarred
+									? "text-amber-500 hover:text-amber-600"
+									: "text-slate-400 hover:text-slate-600",
+							)}
+							onClick={() => onStarChange(!isStarred)}
+							title={
+								isStarred
+									? "Unstar this path"
+									: "Star this path for dataset exports"
+							}
+						/>
+					)}
+					{generation && (
+						<Popover width={260} position="bottom-start" withArrow>
+							<Popover.Target>
+								<UnstyledButton
+									className="truncate text-xs text-slate-400 hover:text-slate-600"
+									title="Show generation details"
+								>
+									{summarizeGeneration(generation)}
+								</UnstyledButton>
+							</Popover.Target>
+							<Popover.Dropdown>
+								<dl className="my-0 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+									{describeGeneration(generation).map((row) => (
+										<div key={row.label} className="contents">
+											<dt className="text-slate-500">{row.label}</dt>
+											<dd className="m-0 break-all font-mono text-slate-700">
+												{row.value}
+											</dd>
+										</div>
+									))}
+								</dl>
+							</Popover.Dropdown>
+						</Popover>
+					)}
 					{(hasBeenClicked || isHovered) && (
 						<>
 							<UnstyledButton
@@ -135,6 +303,41 @@ const MessageItem = ({
 								onClick={onDetach}
 								title="Move cursor to parent"
 							/>
+							{onContinue && message._metadata.status !== "streaming" && (
+								<UnstyledButton
+									className="i-lucide-step-forward text-slate-400 hover:text-slate-600 transition"
+									onClick={onContinue}
+									title="Continue this reply"
+								/>
+							)}
+							{onRegenerate && (
+								<UnstyledButton
+									className="i-lucide-refresh-cw text-slate-400 hover:text-slate-600 transition"
+									onClick={() => onRegenerate()}
+									title="Regenerate as a new branch"
+								/>
+							)}
+							{onRegenerate && regenerateModels.length > 1 && (
+								<Menu position="bottom-start" withArrow shadow="md">
+									<Menu.Target>
+										<UnstyledButton
+											className="i-lucide-chevrons-up-down text-slate-400 hover:text-slate-600 transition"
+											title="Regenerate with another model"
+										/>
+									</Menu.Target>
+									<Menu.Dropdown className="max-h-72 overflow-y-auto">
+										<Menu.Label>Regenerate with</Menu.Label>
+										{regenerateModels.map((model) => (
+											<Menu.Item
+												key={model.id}
+												onClick={() => onRegenerate(model.id)}
+											>
+												{model.name || model.id}
+											</Menu.Item>
+										))}
+									</Menu.Dropdown>
+								</Menu>
+							)}
 							<Popover width={200} position="bottom" withArrow>
 								<Popover.Target>
 									<UnstyledButton
@@ -199,7 +402,16 @@ const MessageItem = ({
 						)}
 					</div>
 				)}
-				{isTokenView && contentTokenEntries.length > 0 ? (
+				{toolResult ? (
+					<ToolPane
+						icon="i-lucide-corner-down-right"
+						label={`${toolResult.toolName} ${toolResult.isError ? "failed" : "returned"}`}
+						body={contentParts
+							.map((part) => (part.type === "text" ? part.text : ""))
+							.join("\n\n")}
+						isError={toolResult.isError}
+					/>
+				) : isTokenView && contentTokenEntries.length > 0 ? (
 					<div className="twp prose prose-p:whitespace-pre-wrap">
 						<TokenInlineRenderer
 							tokens={contentTokenEntries.map((entry) => entry.token)}
@@ -214,6 +426,7 @@ const MessageItem = ({
 								<Markdown
 									key={`${message._metadata.uuid}-text-${index}`}
 									remarkPlugins={[]}
+									components={onRunCode ? runnableComponents : undefined}
 								>
 									{`${part.text}${
 										isLast && isGenerating && index === contentParts.length - 1
@@ -233,6 +446,44 @@ const MessageItem = ({
 						)}
 					</div>
 				)}
+				{toolCalls.map((call) => (
+					<ToolPane
+						key={call.toolCallId}
+						icon="i-lucide-wrench"
+						label={call.toolName}
+						body={JSON.stringify(call.input, null, 2) ?? ""}
+					/>
+				))}
+				{isFailed && (
+					<div className="mt-1 flex items-center gap-2 text-xs text-red-600">
+						<span className="i-lucide-circle-alert" />
+						<span>Generation failed</span>
+						{onRetry && (
+							<Button
+								size="compact-xs"
+								variant="light"
+								color="gray"
+								onClick={onRetry}
+								disabled={isGenerating}
+								title="Discard this reply and generate it again"
+							>
+								Retry
+							</Button>
+						)}
+						{onContinue && hasText && (
+							<Button
+								size="compact-xs"
+								variant="light"
+								color="gray"
+								onClick={onContinue}
+								disabled={isGenerating}
+								title="Continue from the text generated so far"
+							>
+								Resume
+							</Button>
+						)}
+					</div>
+				)}
 			</div>
 		</div>
 	);
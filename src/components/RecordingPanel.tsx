@@ -0,0 +1,76 @@
+import { ActionIcon, Button, Card, Group, Switch, Text } from "@mantine/core";
+import type { Recording } from "../state/useRecordingStore";
+import { exportCassetteToFile } from "../utils/cassettes";
+
+interface RecordingPanelProps {
+	isRecording: boolean;
+	onRecordingChange: (enabled: boolean) => void;
+	recordings: Recording[];
+	onClear: () => void;
+}
+
+const timeFormatter = new Intl.DateTimeFormat(undefined, {
+	dateStyle: "short",
+	timeStyle: "medium",
+});
+
+const RecordingPanel = ({
+	isRecording,
+	onRecordingChange,
+	recordings,
+	onClear,
+}: RecordingPanelProps) => (
+	<Card withBorder padding="md" radius="md">
+		<Group justify="space-between" align="flex-start">
+			<div>
+				<Text size="sm" fw={500}>
+					Record streams
+				</Text>
+				<Text size="sm" c="dimmed">
+					Capture every OpenAI-compatible stream, raw chunks included, as a
+					cassette. Load a cassette into a Replay provider to play the run back
+					without the server. Recordings are kept until you reload the page.
+				</Text>
+			</div>
+			<Switch
+				checked={isRecording}
+				onChange={(event) => onRecordingChange(event.currentTarget.checked)}
+				size="md"
+				aria-label="Toggle stream recording"
+			/>
+		</Group>
+		{recordings.length > 0 && (
+			<div className="mt-3 flex flex-col gap-1">
+				{recordings.map(({ id, cassette }) => (
+					<Group key={id} justify="space-between" wrap="nowrap" gap="xs">
+						<div className="min-w-0">
+							<Text size="xs" fw={500} lineClamp={1}>
+								{cassette.modelId}
+							</Text>
+							<Text size="xs" c="dimmed">
+								{timeFormatter.format(new Date(cassette.recordedAt))} ·{" "}
+								{cassette.mode} · {cassette.entries.length} parts
+							</Text>
+						</div>
+						<ActionIcon
+							variant="subtle"
+							color="gray"
+							size="sm"
+							onClick={() => exportCassetteToFile(cassette)}
+							title="Download cassette"
+						>
+							<span className="i-lucide-download w-3 h-3" />
+						</ActionIcon>
+					</Group>
+				))}
+				<Group justify="flex-end">
+					<Button size="xs" variant="subtle" color="gray" onClick={onClear}>
+						Clear recordings
+					</Button>
+				</Group>
+			</div>
+		)}
+	</Card>
+);
+
+export default RecordingPanel;
@@ -0,0 +1,73 @@
+import { Loader, UnstyledButton } from "@mantine/core";
+import { type ComponentProps, useState } from "react";
+import type { ExtraProps } from "react-markdown";
+
+type PreProps = ComponentProps<"pre"> & ExtraProps;
+
+interface RunnableCodeBlockProps extends PreProps {
+	onRun: (code: string) => Promise<void>;
+}
+
+const runnableLanguages = new Set(["js", "javascript", "mjs"]);
+
+const readRunnableCode = (node: PreProps["node"]) => {
+	const code = node?.children[0];
+	if (!code || code.type !== "element" || code.tagName !== "code") {
+		return undefined;
+	}
+	const classNames = code.properties.className;
+	const isJavaScript =
+		Array.isArray(classNames) &&
+		classNames.some(
+			(name) =>
+				typeof name === "string" &&
+				runnableLanguages.has(name.replace(/^language-/, "")),
+		);
+	if (!isJavaScript) {
+		return undefined;
+	}
+	return code.children
+		.map((child) => (child.type === "text" ? child.value : ""))
+		.join("");
+};
+
+/** Markdown `pre` renderer that adds a Run button to JavaScript blocks. */
+const RunnableCodeBlock = ({
+	node,
+	onRun,
+	...rest
+}: RunnableCodeBlockProps) => {
+	const [isRunning, setIsRunning] = useState(false);
+	const code = readRunnableCode(node);
+	if (code === undefined) {
+		return <pre {...rest} />;
+	}
+
+	return (
+		<div className="group/code relative">
+			<pre {...rest} />
+			<UnstyledButton
+				className="absolute right-2 top-2 flex items-center gap-1 rounded bg-white/90 px-2 py-0.5 text-xs text-slate-600 shadow-sm hover:text-slate-900 disabled:opacity-60"
+				disabled={isRunning}
+				onClick={async () => {
+					setIsRunning(true);
+					try {
+						await onRun(code);
+					} finally {
+						setIsRunning(false);
+					}
+				}}
+				title="Run in sandbox and add the output as a tool message"
+			>
+				{isRunning ? (
+					<Loader size={10} />
+				) : (
+					<span className="i-lucide-play w-3 h-3" aria-hidden="true" />
+				)}
+				Run
+			</UnstyledButton>
+		</div>
+	);
+};
+
+export default RunnableCodeBlock;
@@ -0,0 +1,136 @@
+import {
+	Checkbox,
+	Chip,
+	Drawer,
+	Group,
+	Text,
+	TextInput,
+	UnstyledButton,
+} from "@mantine/core";
+import { useDebouncedValue } from "@mantine/hooks";
+import { useMemo, useState } from "react";
+import { twJoin } from "tailwind-merge";
+import { useConversationTree } from "../tree/useConversationTree";
+import {
+	type SearchRole,
+	buildSearchIndex,
+	searchTree,
+} from "../utils/treeSearch";
+
+interface SearchPanelProps {
+	opened: boolean;
+	onClose: () => void;
+	onSelect: (nodeId: string) => void;
+}
+
+const roleOptions: SearchRole[] = ["system", "user", "assistant", "tool"];
+
+const SearchPanel = ({ opened, onClose, onSelect }: SearchPanelProps) => {
+	const nodes = useConversationTree((state) => state.nodes);
+	const activeTargetId = useConversationTree((state) => state.activeTargetId);
+	const [query, setQuery] = useState("");
+	const [roles, setRoles] = useState<string[]>(roleOptions);
+	const [useRegex, setUseRegex] = useState(false);
+	const [caseSensitive, setCaseSensitive] = useState(false);
+	const [debouncedQuery] = useDebouncedValue(query, 150);
+
+	const index = useMemo(
+		() => (opened ? buildSearchIndex(nodes) : []),
+		[nodes, opened],
+	);
+	const result = useMemo(
+		() =>
+			searchTree(nodes, index, {
+				query: debouncedQuery,
+				roles: roles as SearchRole[],
+				useRegex,
+				caseSensitive,
+			}),
+		[caseSensitive, debouncedQuery, index, nodes, roles, useRegex],
+	);
+
+	return (
+		<Drawer
+			opened={opened}
+			onClose={onClose}
+			position="right"
+			size="md"
+			title="Search conversation"
+		>
+			<div className="flex flex-col gap-3">
+				<TextInput
+					data-autofocus
+					placeholder={useRegex ? "Regular expression" : "Search messages"}
+					value={query}
+					onChange={(event) => setQuery(event.currentTarget.value)}
+					error={result.error}
+					leftSection={<span className="i-lucide-search w-4 h-4" />}
+				/>
+				<Chip.Group multiple value={roles} onChange={setRoles}>
+					<Group gap="xs">
+						{roleOptions.map((role) => (
+							<Chip key={role} value={role} size="xs">
+								{role}
+							</Chip>
+						))}
+					</Group>
+				</Chip.Group>
+				<Group gap="md">
+					<Checkbox
+						size="xs"
+						label="Regex"
+						checked={useRegex}
+						onChange={(event) => setUseRegex(event.currentTarget.checked)}
+					/>
+					<Checkbox
+						size="xs"
+						label="Match case"
+						checked={caseSensitive}
+						onChange={(event) => setCaseSensitive(event.currentTarget.checked)}
+					/>
+				</Group>
+				{debouncedQuery && !result.error && (
+					<Text size="xs" c="dimmed">
+						{result.hits.length === 0
+							? "No matches"
+							: `${result.hits.length}${result.truncated ? "+" : ""} matches`}
+					</Text>
+				)}
+				<div className="flex flex-col gap-1">
+					{result.hits.map((hit) => (
+						<UnstyledButton
+							key={`${hit.nodeId}-${hit.field}`}
+							className={twJoin(
+								"rounded-md px-2 py-1.5 text-left",
+								hit.nodeId === activeTargetId
+									? "bg-blue-50"
+									: "hover:bg-slate-100",
+							)}
+							onClick={() => onSelect(hit.nodeId)}
+						>
+							<p className="my-0 text-xs text-slate-400 truncate">
+								{hit.path
+									.slice(-4, -1)
+									.map((step) => `${step.role}: ${step.excerpt || "…"}`)
+									.join(" › ")}
+							</p>
+							<p className="my-0 text-xs font-mono uppercase text-slate-500">
+								{hit.role}
+								{hit.field === "reasoning" ? " · reasoning" : ""}
+							</p>
+							<p className="my-0 text-sm text-slate-700 break-words">
+								{hit.before}
+								<mark className="rounded-sm bg-yellow-200 px-0.5">
+									{hit.match}
+								</mark>
+								{hit.after}
+							</p>
+						</UnstyledButton>
+					))}
+				</div>
+			</div>
+		</Drawer>
+	);
+};
+
+export default SearchPanel;
@@ -10,17 +10,30 @@ import {
 	PasswordInput,
 	Progress,
 	Select,
+	SimpleGrid,
 	Stack,
 	Switch,
 	Text,
 	TextInput,
+	Textarea,
 	Title,
 	UnstyledButton,
 } from "@mantine/core";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+	type ChangeEvent,
+	useCallback,
+	useEffect,
+	useMemo,
+	useRef,
+	useState,
+} from "react";
 import { useForm } from "react-hook-form";
 import { toast } from "sonner";
 import { useShallow } from "zustand/react/shallow";
+import { type ReplayTiming, parseCassette } from "../ai/cassette";
+import { TRUNCATION_STRATEGY_LABELS } from "../ai/contextTruncation";
+import { DEFAULT_DUMMY_SCRIPT, validateDummyScript } from "../ai/dummyScript";
+import { useRecordingStore } from "../state/useRecordingStore";
 import {
 	HEATMAP_THEMES,
 	type HeatmapTheme,
@@ -28,9 +41,14 @@ import {
 } from "../state/useSettingsStore";
 import type {
 	BuiltInAvailability,
+	DummyFaults,
 	ProviderEntry,
 	ProviderKind,
+	TruncationStrategy,
 } from "../types";
+import DummyFaultSettings from "./DummyFaultSettings";
+import RecordingPanel from "./RecordingPanel";
+import ToolSettingsPanel from "./ToolSettingsPanel";
 
 interface SettingsFormValues {
 	name: string;
@@ -38,6 +56,10 @@ interface SettingsFormValues {
 	apiKey: string;
 	providerKind: ProviderKind;
 	tokensPerSecond: number | null;
+	script: string;
+	faults: DummyFaults;
+	cassette: string;
+	replayTiming: ReplayTiming;
 }
 
 interface SettingsModalProps {
@@ -45,11 +67,24 @@ interface SettingsModalProps {
 	onClose: () => void;
 }
 
-type SettingsTab = "general" | "provider" | "display";
+type SettingsTab = "general" | "provider" | "display" | "tools";
+
+const truncationStrategies = Object.keys(
+	TRUNCATION_STRATEGY_LABELS,
+) as TruncationStrategy[];
 
 const isHeatmapTheme = (value: string): value is HeatmapTheme =>
 	HEATMAP_THEMES.includes(value as HeatmapTheme);
 
+const describeCassette = (text: string) => {
+	try {
+		const cassette = parseCassette(text);
+		return `${cassette.modelId} · ${cassette.mode} · ${cassette.entries.length} parts · recorded ${new Date(cassette.recordedAt).toLocaleString()}`;
+	} catch (error) {
+		return error instanceof Error ? error.message : "Unreadable cassette";
+	}
+};
+
 const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 	const {
 		providers,
@@ -68,6 +103,14 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 		setEnableTokenHeatmap,
 		heatmapTheme,
 		setHeatmapTheme,
+		tools,
+		setTools,
+		enableJavaScriptTool,
+		setEnableJavaScriptTool,
+		autoRetry,
+		setAutoRetry,
+		truncation,
+		setTruncation,
 	} = useSettingsStore(
 		useShallow((state) => ({
 			providers: state.providers,
@@ -86,8 +129,25 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 			setEnableTokenHeatmap: state.setEnableTokenHeatmap,
 			heatmapTheme: state.heatmapTheme,
 			setHeatmapTheme: state.setHeatmapTheme,
+			tools: state.tools,
+			setTools: state.setTools,
+			enableJavaScriptTool: state.enableJavaScriptTool,
+			setEnableJavaScriptTool: state.setEnableJavaScriptTool,
+			autoRetry: state.autoRetry,
+			setAutoRetry: state.setAutoRetry,
+			truncation: state.truncation,
+			setTruncation: state.setTruncation,
 		})),
 	);
+	const { isRecording, setIsRecording, recordings, clearRecordings } =
+		useRecordingStore(
+			useShallow((state) => ({
+				isRecording: state.isRecording,
+				setIsRecording: state.setIsRecording,
+				recordings: state.recordings,
+				clearRecordings: state.clearRecordings,
+			})),
+		);
 
 	const [isAddingProvider, setIsAddingProvider] = useState(false);
 	const [editingProviderId, setEditingProviderId] = useState<string | null>(
@@ -104,6 +164,10 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 				apiKey: "",
 				providerKind: "openai-compatible",
 				tokensPerSecond: 10,
+				script: DEFAULT_DUMMY_SCRIPT,
+				faults: {},
+				cassette: "",
+				replayTiming: "original",
 			},
 		});
 
@@ -120,6 +184,9 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 	const [isSavingProvider, setIsSavingProvider] = useState(false);
 	const [showNameField, setShowNameField] = useState(false);
 	const [isNameManuallySet, setIsNameManuallySet] = useState(false);
+	const cassetteValue = watch("cassette");
+	const replayTimingValue = watch("replayTiming");
+	const cassetteInputRef = useRef<HTMLInputElement | null>(null);
 	const isSavingProviderRef = useRef(false);
 	const downloadModelRef = useRef<ReturnType<typeof builtInAI> | null>(null);
 
@@ -139,6 +206,8 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 					return "Built-in AI";
 				case "dummy":
 					return "Dummy Provider";
+				case "replay":
+					return "Replay";
 				default:
 					return "Unknown Provider";
 			}
@@ -316,6 +385,27 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 			if (isSavingProviderRef.current) {
 				return;
 			}
+			if (values.providerKind === "dummy" && values.script.trim()) {
+				const scriptError = validateDummyScript(values.script);
+				if (scriptError) {
+					toast.error(scriptError);
+					return;
+				}
+			}
+			if (values.providerKind === "replay") {
+				if (!values.cassette) {
+					toast.error("Load a cassette file first");
+					return;
+				}
+				try {
+					parseCassette(values.cassette);
+				} catch (error) {
+					toast.error(
+						error instanceof Error ? error.message : "Unreadable cassette",
+					);
+					return;
+				}
+			}
 			isSavingProviderRef.current = true;
 			setIsSavingProvider(true);
 			try {
@@ -331,7 +421,18 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 				if (values.providerKind === "openai-compatible") {
 					config = { baseURL: values.baseURL, apiKey: values.apiKey };
 				} else if (values.providerKind === "dummy") {
-					config = { tokensPerSecond: resolvedTokensPerSecond };
+					config = {
+						tokensPerSecond: resolvedTokensPerSecond,
+						script: values.script.trim() ? values.script : undefined,
+						faults:
+							Object.keys(values.faults).length > 0 ? values.faults : undefined,
+					};
+				} else if (values.providerKind === "replay") {
+					config = {
+						cassette: values.cassette,
+						replayTiming: values.replayTiming,
+						tokensPerSecond: resolvedTokensPerSecond,
+					};
 				}
 
 				if (editingProviderId) {
@@ -367,6 +468,24 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 		],
 	);
 
+	const handleCassetteFile = async (event: ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		event.target.value = "";
+		if (!file) {
+			return;
+		}
+		const text = await file.text();
+		try {
+			parseCassette(text);
+		} catch (error) {
+			toast.error(
+				`Cannot load cassette: ${error instanceof Error ? error.message : "unreadable file"}`,
+			);
+			return;
+		}
+		setValue("cassette", text, { shouldDirty: true, shouldTouch: true });
+	};
+
 	const startEditing = (providerId: string) => {
 		const provider = providers.find((p) => p.id === providerId);
 		if (provider) {
@@ -382,6 +501,10 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 					baseURL: provider.config.baseURL || "",
 					apiKey: provider.config.apiKey || "",
 					tokensPerSecond: provider.config.tokensPerSecond ?? 10,
+					script: provider.config.script ?? DEFAULT_DUMMY_SCRIPT,
+					faults: provider.config.faults ?? {},
+					cassette: provider.config.cassette ?? "",
+					replayTiming: provider.config.replayTiming ?? "original",
 				},
 				{ keepDirty: false, keepTouched: false },
 			);
@@ -416,6 +539,92 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 					/>
 				</Group>
 			</Card>
+			<Card withBorder padding="md" radius="md">
+				<Text size="sm" fw={500}>
+					Automatic retry
+				</Text>
+				<Text size="sm" c="dimmed">
+					Regenerate a reply that fails with a rate limit, server error or
+					dropped connection. Each retry waits twice as long as the one before.
+					Set attempts to 0 to turn it off.
+				</Text>
+				<SimpleGrid cols={2} spacing="sm" mt="sm">
+					<NumberInput
+						label="Attempts"
+						min={0}
+						max={10}
+						allowDecimal={false}
+						value={autoRetry.maxAttempts}
+						onChange={(value) => {
+							if (typeof value === "number") {
+								void setAutoRetry({ ...autoRetry, maxAttempts: value });
+							}
+						}}
+					/>
+					<NumberInput
+						label="First delay (ms)"
+						min={0}
+						step={500}
+						allowDecimal={false}
+						value={autoRetry.initialDelayMs}
+						onChange={(value) => {
+							if (typeof value === "number") {
+								void setAutoRetry({ ...autoRetry, initialDelayMs: value });
+							}
+						}}
+						disabled={autoRetry.maxAttempts === 0}
+					/>
+				</SimpleGrid>
+			</Card>
+			<Card withBorder padding="md" radius="md">
+				<Text size="sm" fw={500}>
+					Context truncation
+				</Text>
+				<Text size="sm" c="dimmed">
+					How a conversation is cut down before it is sent. Dropping and
+					summarizing only start once the path no longer fits the model's
+					context window. The system prompt is always kept, and so is the latest
+					turn.
+				</Text>
+				<SimpleGrid cols={2} spacing="sm" mt="sm">
+					<Select
+						label="Strategy"
+						data={truncationStrategies.map((strategy) => ({
+							value: strategy,
+							label: TRUNCATION_STRATEGY_LABELS[strategy],
+						}))}
+						value={truncation.strategy}
+						onChange={(value) => {
+							const strategy = truncationStrategies.find(
+								(entry) => entry === value,
+							);
+							if (strategy) {
+								void setTruncation({ ...truncation, strategy });
+							}
+						}}
+						allowDeselect={false}
+					/>
+					{truncation.strategy === "sliding-window" && (
+						<NumberInput
+							label="Turns to keep"
+							min={1}
+							allowDecimal={false}
+							value={truncation.windowTurns}
+							onChange={(value) => {
+								if (typeof value === "number" && value >= 1) {
+									void setTruncation({ ...truncation, windowTurns: value });
+								}
+							}}
+						/>
+					)}
+				</SimpleGrid>
+			</Card>
+			<RecordingPanel
+				isRecording={isRecording}
+				onRecordingChange={setIsRecording}
+				recordings={recordings}
+				onClear={clearRecordings}
+			/>
 		</Stack>
 	);
 
@@ -486,11 +695,16 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 							disabled: hasBuiltIn && !isEditingBuiltIn,
 						},
 						{ label: "Dummy Provider", value: "dummy" },
+						{ label: "Replay", value: "replay" },
 					]}
 					value={selectedProvider}
 					onChange={(value) => {
 						if (value) {
-							if (value === "built-in" || value === "dummy") {
+							if (
+								value === "built-in" ||
+								value === "dummy" ||
+								value === "replay"
+							) {
 								setIsNameManuallySet(false);
 								setShowNameField(false);
 								setValue(
@@ -566,26 +780,111 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 					</div>
 				)}
 				{selectedProvider === "dummy" && (
-					<NumberInput
-						label="Tokens per Second"
-						description="Speed of token generation"
-						min={1}
-						max={100}
-						value={watch("tokensPerSecond") ?? ""}
-						onChange={(value) => {
-							if (value === "" || value === null) {
-								setValue("tokensPerSecond", null, {
+					<>
+						<NumberInput
+							label="Tokens per Second"
+							description="Speed of token generation"
+							min={1}
+							max={100}
+							value={watch("tokensPerSecond") ?? ""}
+							onChange={(value) => {
+								if (value === "" || value === null) {
+									setValue("tokensPerSecond", null, {
+										shouldDirty: true,
+										shouldTouch: true,
+									});
+									return;
+								}
+								setValue("tokensPerSecond", Number(value), {
 									shouldDirty: true,
 									shouldTouch: true,
 								});
-								return;
-							}
-							setValue("tokensPerSecond", Number(value), {
-								shouldDirty: true,
-								shouldTouch: true,
-							});
-						}}
-					/>
+							}}
+						/>
+						<Textarea
+							label="Script"
+							description="Steps played by the Scripted model, as a JSON array. Each step is text, reasoning (both take optional probability and alternatives), delay (ms), error (message) or finish (reason)."
+							autosize
+							minRows={4}
+							maxRows={12}
+							classNames={{ input: "font-mono text-xs" }}
+							{...register("script")}
+						/>
+						<DummyFaultSettings
+							faults={watch("faults")}
+							onChange={(faults) => {
+								setValue("faults", faults, {
+									shouldDirty: true,
+									shouldTouch: true,
+								});
+							}}
+						/>
+					</>
+				)}
+				{selectedProvider === "replay" && (
+					<>
+						<input
+							ref={cassetteInputRef}
+							type="file"
+							accept="application/json"
+							className="hidden"
+							onChange={handleCassetteFile}
+							aria-hidden="true"
+							tabIndex={-1}
+						/>
+						<div>
+							<Text size="sm" fw={500}>
+								Cassette
+							</Text>
+							<Text size="xs" c="dimmed">
+								{cassetteValue
+									? describeCassette(cassetteValue)
+									: "Record a run in Settings → General, then load the downloaded file here."}
+							</Text>
+							<Button
+								size="xs"
+								variant="light"
+								mt="xs"
+								leftSection={<span className="i-lucide-file-up w-4 h-4" />}
+								onClick={() => cassetteInputRef.current?.click()}
+							>
+								{cassetteValue ? "Replace cassette" : "Load cassette"}
+							</Button>
+						</div>
+						<Select
+							label="Timing"
+							data={[
+								{ label: "Original timing", value: "original" },
+								{ label: "Fixed speed", value: "fixed" },
+							]}
+							value={replayTimingValue}
+							onChange={(value) => {
+								if (value === "original" || value === "fixed") {
+									setValue("replayTiming", value, {
+										shouldDirty: true,
+										shouldTouch: true,
+									});
+								}
+							}}
+							allowDeselect={false}
+						/>
+						{replayTimingValue === "fixed" && (
+							<NumberInput
+								label="Deltas per Second"
+								description="Speed of text and reasoning deltas"
+								min={1}
+								max={100}
+								value={watch("tokensPerSecond") ?? ""}
+								onChange={(value) => {
+									setValue(
+										"tokensPerSecond",
+										value === "" || value === null ? null : Number(value),
+										{ shouldDirty: true, shouldTouch: true },
+									);
+								}}
+							/>
+						)}
+					</>
 				)}
 				<UnstyledButton
 					className="flex items-center gap-2 text-xs font-medium text-slate-600"
@@ -652,6 +951,10 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 							apiKey: "",
 							providerKind: "openai-compatible",
 							tokensPerSecond: 10,
+							script: DEFAULT_DUMMY_SCRIPT,
+							faults: {},
+							cassette: "",
+							replayTiming: "original",
 						});
 						setIsNameManuallySet(false);
 						setShowNameField(false);
@@ -720,7 +1023,9 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 												? "OpenAI Compatible"
 												: provider.kind === "dummy"
 													? "Dummy Provider"
-													: "Built-in AI"}
+													: provider.kind === "replay"
+														? "Replay"
+														: "Built-in AI"}
 										</Text>
 									</div>
 								</Group>
@@ -829,6 +1134,14 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 						variant="light"
 						className="rounded-md"
 					/>
+					<NavLink
+						label="Tools"
+						leftSection={<span className="i-lucide-wrench w-4 h-4" />}
+						active={activeTab === "tools"}
+						onClick={() => setActiveTab("tools")}
+						variant="light"
+						className="rounded-md"
+					/>
 				</div>
 
 				{/* Content */}
@@ -838,6 +1151,18 @@ const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
 						{activeTab === "display" && renderDisplayTab()}
 						{activeTab === "provider" &&
 							(isAddingProvider ? renderProviderForm() : renderProviderList())}
+						{activeTab === "tools" && (
+							<ToolSettingsPanel
+								tools={tools}
+								onChange={(next) => {
+									void setTools(next);
+								}}
+								javascriptToolEnabled={enableJavaScriptTool}
+								onJavaScriptToolChange={(enabled) => {
+									void setEnableJavaScriptTool(enabled);
+								}}
+							/>
+						)}
 					</div>
 				</div>
 			</div>
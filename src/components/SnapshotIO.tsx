@@ -1,8 +1,14 @@
 import type { ChangeEvent, ReactNode } from "react";
-import { useRef } from "react";
+import { useRef, useState } from "react";
 import { toast } from "sonner";
 import type { ConversationSnapshot } from "../tree/types";
-import { exportSnapshotToFile, parseSnapshotFile } from "../utils/snapshots";
+import {
+	type ParsedImport,
+	exportSnapshotToFile,
+	parseImportFile,
+} from "../utils/snapshots";
+import ImportPreviewModal from "./ImportPreviewModal";
+import SnapshotPreviewModal from "./SnapshotPreviewModal";
 
 interface SnapshotIOProps {
 	exportSnapshot: () => ConversationSnapshot;
@@ -14,6 +20,16 @@ interface SnapshotIOProps {
 	}) => ReactNode;
 }
 
+type ChatImportFormat = Exclude<ParsedImport["format"], "snapshot">;
+
+const formatLabels: Record<ChatImportFormat, string> = {
+	"openai-chat": "OpenAI chat request",
+	"openai-jsonl": "OpenAI JSONL dataset",
+	chatgpt: "ChatGPT export",
+	sillytavern: "SillyTavern chat",
+	sharegpt: "ShareGPT",
+};
+
 const SnapshotIO = ({
 	exportSnapshot,
 	importSnapshot,
@@ -21,6 +37,7 @@ const SnapshotIO = ({
 	children,
 }: SnapshotIOProps) => {
 	const fileInputRef = useRef<HTMLInputElement | null>(null);
+	const [pendingImport, setPendingImport] = useState<ParsedImport | null>(null);
 
 	const handleExport = () => {
 		const snapshot = exportSnapshot();
@@ -35,9 +52,18 @@ const SnapshotIO = ({
 			return;
 		}
 		try {
-			const snapshot = await parseSnapshotFile(file);
+			const parsed = await parseImportFile(file);
+			// Clean current-version snapshots skip the preview.
+			if (
+				parsed.format !== "snapshot" ||
+				parsed.report.migrations.length > 0 ||
+				parsed.report.issues.length > 0
+			) {
+				setPendingImport(parsed);
+				return;
+			}
 			onImportStart?.();
-			importSnapshot(snapshot);
+			importSnapshot(parsed.snapshot);
 			toast.success("Conversation imported");
 		} catch (error) {
 			console.error(error);
@@ -51,6 +77,22 @@ const SnapshotIO = ({
 		}
 	};
 
+	const handleConfirmImport = () => {
+		if (!pendingImport) {
+			return;
+		}
+		const count =
+			pendingImport.format === "snapshot"
+				? 1
+				: pendingImport.conversations.length;
+		onImportStart?.();
+		importSnapshot(pendingImport.snapshot);
+		setPendingImport(null);
+		toast.success(
+			count === 1 ? "Conversation imported" : `Imported ${count} conversations`,
+		);
+	};
+
 	const handleImportClick = () => {
 		fileInputRef.current?.click();
 	};
@@ -60,7 +102,7 @@ const SnapshotIO = ({
 			<input
 				ref={fileInputRef}
 				type="file"
-				accept="application/json"
+				accept="application/json,.json,.jsonl"
 				className="hidden"
 				onChange={handleImportFile}
 				aria-hidden="true"
@@ -70,6 +112,25 @@ const SnapshotIO = ({
 				triggerImport: handleImportClick,
 				triggerExport: handleExport,
 			})}
+			{pendingImport?.format === "snapshot" && (
+				<SnapshotPreviewModal
+					opened
+					report={pendingImport.report}
+					onCancel={() => setPendingImport(null)}
+					onConfirm={handleConfirmImport}
+				/>
+			)}
+			{pendingImport && pendingImport.format !== "snapshot" && (
+				<ImportPreviewModal
+					opened
+					formatLabel={formatLabels[pendingImport.format]}
+					itemLabel={pendingImport.itemLabel}
+					conversations={pendingImport.conversations}
+					skipped={pendingImport.skipped}
+					onCancel={() => setPendingImport(null)}
+					onConfirm={handleConfirmImport}
+				/>
+			)}
 		</>
 	);
 };
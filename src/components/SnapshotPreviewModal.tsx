@@ -0,0 +1,113 @@
+import { Badge, Button, Group, Modal, Stack, Text } from "@mantine/core";
+import type { SnapshotIssue } from "../utils/snapshotValidation";
+import type { SnapshotReport } from "../utils/snapshots";
+
+interface SnapshotPreviewModalProps {
+	opened: boolean;
+	report: SnapshotReport;
+	onCancel: () => void;
+	onConfirm: () => void;
+}
+
+const ISSUE_LIMIT = 100;
+
+const outcomeLabels: Record<
+	SnapshotIssue["outcome"],
+	{ label: string; color: string }
+> = {
+	"drop-node": { label: "Message dropped", color: "red" },
+	"drop-field": { label: "Value dropped", color: "orange" },
+	detach: { label: "Becomes a root", color: "yellow" },
+	default: { label: "Default used", color: "gray" },
+};
+
+const SnapshotPreviewModal = ({
+	opened,
+	report,
+	onCancel,
+	onConfirm,
+}: SnapshotPreviewModalProps) => {
+	const droppedNodes = report.issues.filter(
+		(issue) => issue.outcome === "drop-node",
+	).length;
+	return (
+		<Modal opened={opened} onClose={onCancel} title="Import preview" size="lg">
+			<Stack gap="sm">
+				<Group gap="xs">
+					<Badge variant="light">Snapshot v{report.sourceVersion}</Badge>
+					<Badge variant="light" color="gray">
+						{report.nodeCount} messages
+					</Badge>
+					{droppedNodes > 0 && (
+						<Badge variant="light" color="red">
+							{droppedNodes} dropped
+						</Badge>
+					)}
+					{report.issues.length > 0 && (
+						<Badge variant="light" color="orange">
+							{report.issues.length}{" "}
+							{report.issues.length === 1 ? "issue" : "issues"}
+						</Badge>
+					)}
+				</Group>
+				{report.migrations.map((label) => (
+					<Text key={label} size="sm">
+						{label}.
+					</Text>
+				))}
+				{report.issues.length > 0 && (
+					<div className="flex flex-col gap-1 max-h-80 overflow-y-auto">
+						{report.issues.slice(0, ISSUE_LIMIT).map((issue, index) => (
+							<div
+								key={`${issue.nodeId}-${issue.field}-${index}`}
+								className="flex items-baseline gap-2 rounded-md border border-solid border-slate-200 px-3 py-1.5"
+							>
+								<Badge
+									size="xs"
+									variant="light"
+									color={outcomeLabels[issue.outcome].color}
+									className="shrink-0"
+								>
+									{outcomeLabels[issue.outcome].label}
+								</Badge>
+								<Text size="xs" className="flex-1">
+									{issue.nodeId && (
+										<Text span size="xs" ff="monospace" title={issue.nodeId}>
+											{issue.nodeId.slice(0, 8)}
+										</Text>
+									)}
+									{issue.nodeId && issue.field && " · "}
+									{issue.field && (
+										<Text span size="xs" ff="monospace">
+											{issue.field}
+										</Text>
+									)}{" "}
+									<Text span size="xs" c="dimmed">
+										{issue.message}
+									</Text>
+								</Text>
+							</div>
+						))}
+						{report.issues.length > ISSUE_LIMIT && (
+							<Text size="xs" c="dimmed">
+								…and {report.issues.length - ISSUE_LIMIT} more
+							</Text>
+						)}
+					</div>
+				)}
+				<Text size="xs" c="dimmed">
+					Nothing has been imported yet. Importing replaces the tree of the
+					current conversation and can be undone.
+				</Text>
+				<Group justify="flex-end">
+					<Button variant="default" onClick={onCancel}>
+						Cancel
+					</Button>
+					<Button onClick={onConfirm}>Import</Button>
+				</Group>
+			</Stack>
+		</Modal>
+	);
+};
+
+export default SnapshotPreviewModal;
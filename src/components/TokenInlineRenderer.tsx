@@ -10,6 +10,7 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import { twJoin } from "tailwind-merge";
 import { useSettingsStore } from "../state/useSettingsStore";
 import type { TokenAlternative, TokenLogprob } from "../types";
+import { heatmapColor, tokenProbability } from "../utils/heatmap";
 
 interface TokenInlineRendererProps {
 	tokens?: TokenLogprob[];
@@ -188,11 +189,7 @@ const TokenInlineRenderer = ({
 
 	const activeAlternatives = useMemo(() => {
 		if (!activeToken) return [];
-		const probability =
-			activeToken.probability ??
-			activeToken.alternatives.find((alt) => alt.token === activeToken.token)
-				?.probability ??
-			undefined;
+		const probability = tokenProbability(activeToken);
 		return activeToken.alternatives.length > 0
 			? activeToken.alternatives
 			: [{ token: activeToken.token, probability: probability ?? 0 }];
@@ -208,40 +205,13 @@ const TokenInlineRenderer = ({
 				)}
 			>
 				{visibleTokens.map((token, index) => {
-					const probability =
-						token.probability ??
-						token.alternatives.find((alt) => alt.token === token.token)
-							?.probability ??
-						undefined;
+					const probability = tokenProbability(token);
 					const isActive = index === highlightIndex || index === tooltipIndex;
 
-					let backgroundColor: string | undefined;
-					if (enableTokenHeatmap && probability !== undefined) {
-						if (heatmapTheme === "traffic-light") {
-							if (probability > 0.9) {
-								// No background for high probability
-							} else if (probability > 0.5) {
-								// Yellow/Orange for medium probability
-								// Calculate opacity based on probability: 0.9 -> 0.1, 0.5 -> 0.4
-								const opacity = 0.1 + ((0.9 - probability) / 0.4) * 0.3;
-								backgroundColor = `rgba(255, 165, 0, ${opacity})`;
-							} else {
-								// Red for low probability
-								// Calculate opacity based on probability: 0.5 -> 0.2, 0.0 -> 0.5
-								const opacity = 0.2 + ((0.5 - probability) / 0.5) * 0.3;
-								backgroundColor = `rgba(255, 0, 0, ${opacity})`;
-							}
-						} else if (heatmapTheme === "monochrome-red") {
-							// Red with opacity inversely proportional to probability
-							// Cap opacity at 0.5 for readability
-							const opacity = Math.min(0.5, (1 - probability) * 0.6);
-							backgroundColor = `rgba(255, 0, 0, ${opacity})`;
-						} else if (heatmapTheme === "monochrome-blue") {
-							// Blue with opacity inversely proportional to probability
-							const opacity = Math.min(0.5, (1 - probability) * 0.6);
-							backgroundColor = `rgba(0, 0, 255, ${opacity})`;
-						}
-					}
+					const backgroundColor =
+						enableTokenHeatmap && probability !== undefined
+							? heatmapColor(probability, heatmapTheme)
+							: undefined;
 
 					return (
 						<span
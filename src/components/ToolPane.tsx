@@ -0,0 +1,65 @@
+import { UnstyledButton } from "@mantine/core";
+import { useState } from "react";
+import { twJoin } from "tailwind-merge";
+
+interface ToolPaneProps {
+	icon: string;
+	label: string;
+	body: string;
+	isError?: boolean;
+}
+
+const PREVIEW_LENGTH = 80;
+
+const ToolPane = ({ icon, label, body, isError = false }: ToolPaneProps) => {
+	const [isExpanded, setIsExpanded] = useState(false);
+	const preview = body.replace(/\s+/g, " ").trim();
+
+	return (
+		<div
+			className={twJoin(
+				"mb-2 rounded-md border border-solid",
+				isError ? "border-rose-200 bg-rose-50/50" : "border-slate-200",
+			)}
+		>
+			<UnstyledButton
+				className="flex w-full min-w-0 items-center gap-2 px-2 py-1 text-sm text-slate-600"
+				onClick={() => setIsExpanded((value) => !value)}
+				aria-expanded={isExpanded}
+			>
+				<div
+					className={twJoin(
+						"i-lucide-chevron-down flex-none transition-transform",
+						isExpanded && "rotate-180",
+					)}
+				/>
+				<span
+					className={twJoin(icon, "w-4 h-4 flex-none")}
+					aria-hidden="true"
+				/>
+				<span
+					className={twJoin(
+						"flex-none font-mono font-semibold",
+						isError && "text-rose-600",
+					)}
+				>
+					{label}
+				</span>
+				{!isExpanded && (
+					<span className="truncate font-mono text-xs text-slate-400">
+						{preview.length > PREVIEW_LENGTH
+							? `${preview.slice(0, PREVIEW_LENGTH)}…`
+							: preview}
+					</span>
+				)}
+			</UnstyledButton>
+			{isExpanded && (
+				<pre className="my-0 max-h-80 overflow-auto whitespace-pre-wrap break-words px-2 pb-2 font-mono text-xs text-slate-700">
+					{body || "(empty)"}
+				</pre>
+			)}
+		</div>
+	);
+};
+
+export default ToolPane;
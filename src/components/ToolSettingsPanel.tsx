@@ -0,0 +1,244 @@
+import {
+	ActionIcon,
+	Button,
+	Card,
+	Group,
+	Stack,
+	Switch,
+	Text,
+	TextInput,
+	Textarea,
+	Title,
+} from "@mantine/core";
+import { useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { JAVASCRIPT_TOOL_NAME } from "../ai/jsSandbox";
+import { validateToolDefinition } from "../ai/tools";
+import type { ToolDefinition } from "../types";
+
+interface ToolSettingsPanelProps {
+	tools: ToolDefinition[];
+	onChange: (tools: ToolDefinition[]) => void;
+	javascriptToolEnabled: boolean;
+	onJavaScriptToolChange: (enabled: boolean) => void;
+}
+
+const createDraft = (): ToolDefinition => ({
+	id: uuidv4(),
+	name: "",
+	description: "",
+	parameters: JSON.stringify(
+		{ type: "object", properties: {}, required: [] },
+		null,
+		2,
+	),
+	handler: "",
+	enabled: true,
+});
+
+const ToolSettingsPanel = ({
+	tools,
+	onChange,
+	javascriptToolEnabled,
+	onJavaScriptToolChange,
+}: ToolSettingsPanelProps) => {
+	const [draft, setDraft] = useState<ToolDefinition | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	const updateDraft = (updates: Partial<ToolDefinition>) => {
+		setDraft((current) => (current ? { ...current, ...updates } : current));
+		setError(null);
+	};
+
+	const handleSave = () => {
+		if (!draft) {
+			return;
+		}
+		const normalized = { ...draft, name: draft.name.trim() };
+		const problem = validateToolDefinition(normalized, tools);
+		if (problem) {
+			setError(problem);
+			return;
+		}
+		const exists = tools.some((tool) => tool.id === normalized.id);
+		onChange(
+			exists
+				? tools.map((tool) => (tool.id === normalized.id ? normalized : tool))
+				: [...tools, normalized],
+		);
+		setDraft(null);
+	};
+
+	if (draft) {
+		return (
+			<Stack gap="md">
+				<Title order={4}>
+					{tools.some((tool) => tool.id === draft.id)
+						? "Edit Tool"
+						: "Add Tool"}
+				</Title>
+				<TextInput
+					label="Name"
+					placeholder="get_weather"
+					value={draft.name}
+					onChange={(event) => updateDraft({ name: event.currentTarget.value })}
+				/>
+				<TextInput
+					label="Description"
+					description="Tells the model when to call this tool."
+					value={draft.description}
+					onChange={(event) =>
+						updateDraft({ description: event.currentTarget.value })
+					}
+				/>
+				<Textarea
+					label="Parameters"
+					description="JSON Schema for the arguments object."
+					autosize
+					minRows={4}
+					maxRows={12}
+					classNames={{ input: "font-mono text-xs" }}
+					value={draft.parameters}
+					onChange={(event) =>
+						updateDraft({ parameters: event.currentTarget.value })
+					}
+				/>
+				<Textarea
+					label="Handler"
+					description="Body of an async function. The arguments are in `args`; the returned value becomes the tool result."
+					placeholder="return { temperature: 21, city: args.city };"
+					autosize
+					minRows={4}
+					maxRows={12}
+					classNames={{ input: "font-mono text-xs" }}
+					value={draft.handler}
+					onChange={(event) =>
+						updateDraft({ handler: event.currentTarget.value })
+					}
+				/>
+				{error && (
+					<Text size="sm" c="red">
+						{error}
+					</Text>
+				)}
+				<Group justify="flex-end">
+					<Button variant="subtle" onClick={() => setDraft(null)}>
+						Cancel
+					</Button>
+					<Button onClick={handleSave}>Save</Button>
+				</Group>
+			</Stack>
+		);
+	}
+
+	return (
+		<Stack gap="md">
+			<Group justify="space-between">
+				<Title order={4}>Tools</Title>
+				<Button
+					size="xs"
+					onClick={() => {
+						setDraft(createDraft());
+						setError(null);
+					}}
+				>
+					Add Tool
+				</Button>
+			</Group>
+			<Text size="sm" c="dimmed">
+				Enabled tools are offered to OpenAI-compatible and dummy models. Each
+				call and its result are saved as nodes in the conversation tree, and the
+				model continues once every result is in.
+			</Text>
+			<Card withBorder padding="md" radius="md">
+				<Group justify="space-between" align="flex-start" wrap="nowrap">
+					<div>
+						<Text size="sm" fw={500}>
+							JavaScript sandbox
+						</Text>
+						<Text size="sm" c="dimmed">
+							Lets the model call <code>{JAVASCRIPT_TOOL_NAME}</code>. Code runs
+							in a Web Worker without network or storage access and is stopped
+							after a few seconds. JavaScript blocks in replies can always be
+							run by hand.
+						</Text>
+					</div>
+					<Switch
+						checked={javascriptToolEnabled}
+						onChange={(event) => {
+							onJavaScriptToolChange(event.currentTarget.checked);
+						}}
+						size="md"
+						aria-label="Toggle JavaScript sandbox tool"
+					/>
+				</Group>
+			</Card>
+			{tools.length === 0 ? (
+				<Text c="dimmed" size="sm" ta="center" py="xl">
+					No tools defined yet.
+				</Text>
+			) : (
+				<Stack gap="sm">
+					{tools.map((tool) => (
+						<Card key={tool.id} withBorder padding="sm" radius="md">
+							<Group justify="space-between" align="center" wrap="nowrap">
+								<div className="min-w-0">
+									<Text size="sm" fw={500} ff="monospace" lineClamp={1}>
+										{tool.name}
+									</Text>
+									{tool.description && (
+										<Text size="xs" c="dimmed" lineClamp={1}>
+											{tool.description}
+										</Text>
+									)}
+								</div>
+								<Group gap="xs" wrap="nowrap">
+									<Switch
+										size="sm"
+										checked={tool.enabled}
+										onChange={(event) => {
+											const enabled = event.currentTarget.checked;
+											onChange(
+												tools.map((entry) =>
+													entry.id === tool.id ? { ...entry, enabled } : entry,
+												),
+											);
+										}}
+										aria-label={`Enable ${tool.name}`}
+									/>
+									<ActionIcon
+										variant="subtle"
+										color="gray"
+										size="sm"
+										onClick={() => {
+											setDraft(tool);
+											setError(null);
+										}}
+										aria-label={`Edit ${tool.name}`}
+									>
+										<span className="i-lucide-pencil w-3 h-3" />
+									</ActionIcon>
+									<ActionIcon
+										variant="subtle"
+										color="red"
+										size="sm"
+										onClick={() => {
+											if (window.confirm(`Remove tool "${tool.name}"?`)) {
+												onChange(tools.filter((entry) => entry.id !== tool.id));
+											}
+										}}
+										aria-label={`Remove ${tool.name}`}
+									>
+										<span className="i-lucide-trash w-3 h-3" />
+									</ActionIcon>
+								</Group>
+							</Group>
+						</Card>
+					))}
+				</Stack>
+			)}
+		</Stack>
+	);
+};
+
+export default ToolSettingsPanel;
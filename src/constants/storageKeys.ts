@@ -1 +1,6 @@
 export const settingsKey = "iaslate_settings";
+export const workspaceKey = "iaslate_workspace";
+// Pre-workspace tree metadata; only read when migrating old data.
+export const treeMetaKey = "iaslate_tree_meta";
+export const treeDatabaseName = "iaslate-tree";
+export const treeNodeStoreName = "nodes";
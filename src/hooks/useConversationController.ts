@@ -1,35 +1,58 @@
-import { streamText } from "ai";
-import { useCallback, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
 import { useShallow } from "zustand/react/shallow";
-import { createDummyProvider } from "../ai/dummyProvider";
-import { OPENAI_COMPATIBLE_PROVIDER_NAME } from "../ai/openaiCompatible";
+import type { TrimmedContext } from "../ai/contextTruncation";
 import {
-	buildChatLogprobOptions,
-	parseChatLogprobsChunk,
-	toModelMessages,
-} from "../ai/openaiLogprobs";
-import { sendMessage } from "../ai/sendMessage";
-import { processFullStream } from "../ai/streamUtils";
-import { useConversationTree } from "../tree/useConversationTree";
+	JAVASCRIPT_TOOL_NAME,
+	formatSandboxResult,
+	isSandboxFailure,
+	runInSandbox,
+} from "../ai/jsSandbox";
+import {
+	type SendMessageContext,
+	compileRequestContext,
+	continueMessage,
+	regenerateMessage,
+	retryMessage,
+	sendMessage,
+} from "../ai/sendMessage";
+import { getCassetteRecorder } from "../state/useRecordingStore";
+import { toMessage, useConversationTree } from "../tree/useConversationTree";
 import type {
+	AutoRetrySettings,
 	ChatProviderReady,
 	Message,
 	MessageContent,
 	TokenAlternative,
 	TokenLogprob,
+	ToolDefinition,
+	TruncationSettings,
 } from "../types";
 import { deleteMessage } from "../utils/chatActions";
 import { useStreamManager } from "./useStreamManager";
 
+const noCandidates: Message[] = [];
+const noTools: ToolDefinition[] = [];
+
 interface UseConversationControllerOptions {
 	defaultSystemPrompt: string;
-	ensureChatReady: () => ChatProviderReady | null;
+	ensureChatReady: (modelId?: string | null) => ChatProviderReady | null;
+	ensureComparisonReady: () => ChatProviderReady[] | null;
+	tools?: ToolDefinition[];
+	enableJavaScriptTool?: boolean;
+	autoRetry?: AutoRetrySettings;
+	truncation?: TruncationSettings;
 }
 
 export const useConversationController = ({
 	defaultSystemPrompt,
 	ensureChatReady,
+	ensureComparisonReady,
+	tools = noTools,
+	enableJavaScriptTool = false,
+	autoRetry,
+	truncation,
 }: UseConversationControllerOptions) => {
 	const streamManager = useStreamManager();
 	const [isGenerating, setIsGenerating] = useState(false);
@@ -45,14 +68,25 @@ export const useConversationController = ({
 		isEmpty: isTreeEmpty,
 		createUserAfter,
 		createAssistantAfter,
+		createAssistantsAfter,
+		createToolResultAfter,
 		appendToNode,
 		setNodeStatus,
+		setNodeGeneration,
+		clearNodeOutput,
+		setNodeStarred,
+		setNodeRank,
 		cloneNode,
 		replaceNodeWithEditedClone,
 		predecessorOf,
+		siblingsOf,
+		newestLeafUnder,
 		compilePathTo,
 		activeTail,
 		removeNode: removeNodeFromTree,
+		undo: undoTree,
+		redo: redoTree,
+		goToHistoryEntry,
 		reset: resetTree,
 		exportSnapshot,
 		importSnapshot,
@@ -64,14 +98,25 @@ export const useConversationController = ({
 			isEmpty: state.isEmpty,
 			createUserAfter: state.createUserAfter,
 			createAssistantAfter: state.createAssistantAfter,
+			createAssistantsAfter: state.createAssistantsAfter,
+			createToolResultAfter: state.createToolResultAfter,
 			appendToNode: state.appendToNode,
 			setNodeStatus: state.setNodeStatus,
+			setNodeGeneration: state.setNodeGeneration,
+			clearNodeOutput: state.clearNodeOutput,
+			setNodeStarred: state.setNodeStarred,
+			setNodeRank: state.setNodeRank,
 			cloneNode: state.cloneNode,
 			replaceNodeWithEditedClone: state.replaceNodeWithEditedClone,
 			predecessorOf: state.predecessorOf,
+			siblingsOf: state.siblingsOf,
+			newestLeafUnder: state.newestLeafUnder,
 			compilePathTo: state.compilePathTo,
 			activeTail: state.activeTail,
 			removeNode: state.removeNode,
+			undo: state.undo,
+			redo: state.redo,
+			goToHistoryEntry: state.goToHistoryEntry,
 			reset: state.reset,
 			exportSnapshot: state.exportSnapshot,
 			importSnapshot: state.importSnapshot,
@@ -178,6 +223,8 @@ export const useConversationController = ({
 					a.role !== b.role ||
 					!areContentsEqual(a.content, b.content) ||
 					a.reasoning_content !== b.reasoning_content ||
+					a._metadata.generation !== b._metadata.generation ||
+					a._metadata.status !== b._metadata.status ||
 					!areTokenLogprobsEqual(
 						a._metadata.tokenLogprobs,
 						b._metadata.tokenLogprobs,
@@ -196,11 +243,64 @@ export const useConversationController = ({
 		areMessagesEqual,
 	);
 
+	// Edges are rebuilt only when the tree's shape changes, not on every
+	// streamed token.
+	const treeEdges = useConversationTree((state) => state.edges);
+
+	// Assistant replies waiting to be picked: the cursor rests on a user
+	// message that has several of them, e.g. right after sampling. Which
+	// replies those are only changes with the cursor or the tree's shape.
+	const candidateIds = useMemo(() => {
+		const { getActivePathIds, childrenOf, nodes } =
+			useConversationTree.getState();
+		const pathIds = getActivePathIds();
+		const tailId = pathIds[pathIds.length - 1];
+		if (!tailId || nodes[tailId]?.role !== "user") {
+			return [];
+		}
+		const ids = childrenOf(tailId).filter(
+			(id) => nodes[id]?.role === "assistant",
+		);
+		return ids.length > 1 ? ids : [];
+	}, [activeTargetId, treeEdges]);
+
+	const candidateMessages = useConversationTree(
+		useCallback(
+			(state) => {
+				const candidates = candidateIds.flatMap((id) => {
+					const node = state.nodes[id];
+					return node ? [toMessage(node)] : [];
+				});
+				return candidates.length > 1 ? candidates : noCandidates;
+			},
+			[candidateIds],
+		),
+		areMessagesEqual,
+	);
+	const siblingsByNode = useMemo(() => {
+		const groups: Record<string, string[]> = {};
+		for (const message of chatMessages) {
+			const siblings = siblingsOf(message._metadata.uuid);
+			if (siblings.length > 1) {
+				groups[message._metadata.uuid] = siblings;
+			}
+		}
+		return groups;
+	}, [chatMessages, siblingsOf, treeEdges]);
+
 	const abortActiveStreams = useCallback(() => {
 		streamManager.abortAll();
 		setIsGenerating(false);
 	}, [streamManager]);
 
+	const stopStream = useCallback(
+		(nodeId: string) => {
+			streamManager.abort(nodeId);
+			setIsGenerating(streamManager.hasActive());
+		},
+		[streamManager],
+	);
+
 	const resetComposerState = useCallback(() => {
 		if (editingMessageId) {
 			setNodeStatus(editingMessageId, "final");
@@ -210,6 +310,34 @@ export const useConversationController = ({
 		setIsPromptDirty(false);
 	}, [editingMessageId, setNodeStatus]);
 
+	// History steps can remove the node being streamed into or edited, so both
+	// are wound down first.
+	const runHistoryStep = useCallback(
+		(step: () => void) => {
+			abortActiveStreams();
+			if (editingMessageId) {
+				resetComposerState();
+			}
+			step();
+		},
+		[abortActiveStreams, editingMessageId, resetComposerState],
+	);
+
+	const handleUndo = useCallback(
+		() => runHistoryStep(undoTree),
+		[runHistoryStep, undoTree],
+	);
+
+	const handleRedo = useCallback(
+		() => runHistoryStep(redoTree),
+		[redoTree, runHistoryStep],
+	);
+
+	const handleGoToHistoryEntry = useCallback(
+		(entryId: string | null) => runHistoryStep(() => goToHistoryEntry(entryId)),
+		[goToHistoryEntry, runHistoryStep],
+	);
+
 	const clearConversation = useCallback(() => {
 		abortActiveStreams();
 		resetComposerState();
@@ -225,50 +353,231 @@ export const useConversationController = ({
 		setActiveTarget,
 	]);
 
+	const buildSendContext = useCallback(
+		(provider: ChatProviderReady): SendMessageContext => ({
+			provider,
+			activeTargetId,
+			activeTail,
+			createSystemMessage,
+			createUserAfter,
+			createAssistantAfter,
+			createAssistantsAfter,
+			createToolResultAfter,
+			setNodeStatus,
+			setActiveTarget,
+			setNodeGeneration,
+			clearNodeOutput,
+			appendToNode,
+			compilePathTo,
+			streamManager,
+			setIsGenerating,
+			defaultSystemPrompt,
+			tools,
+			enableJavaScriptTool,
+			recordCassette: getCassetteRecorder(),
+			autoRetry,
+			truncation,
+		}),
+		[
+			activeTail,
+			activeTargetId,
+			appendToNode,
+			autoRetry,
+			clearNodeOutput,
+			compilePathTo,
+			createAssistantAfter,
+			createAssistantsAfter,
+			createSystemMessage,
+			createToolResultAfter,
+			createUserAfter,
+			defaultSystemPrompt,
+			enableJavaScriptTool,
+			setActiveTarget,
+			setIsGenerating,
+			setNodeGeneration,
+			setNodeStatus,
+			streamManager,
+			tools,
+			truncation,
+		],
+	);
+
 	const handleSend = useCallback(
-		async (promptContent: MessageContent) => {
-			const chatProvider = ensureChatReady();
+		async (
+			promptContent: MessageContent,
+			{
+				sampleCount,
+				compare = false,
+			}: { sampleCount?: number; compare?: boolean } = {},
+		) => {
+			const providers = compare ? ensureComparisonReady() : undefined;
+			if (compare && !providers) {
+				return;
+			}
+			const chatProvider = providers?.[0] ?? ensureChatReady();
 			if (!chatProvider) {
 				return;
 			}
 			try {
-				await sendMessage(promptContent, {
-					provider: chatProvider,
-					activeTargetId,
-					activeTail,
-					createSystemMessage,
-					createUserAfter,
-					createAssistantAfter,
-					setNodeStatus,
-					setActiveTarget,
-					appendToNode,
-					compilePathTo,
-					streamManager,
-					setIsGenerating,
-					defaultSystemPrompt,
+				await sendMessage(promptContent, buildSendContext(chatProvider), {
+					sampleCount,
+					providers: providers ?? undefined,
 				});
 			} catch (error) {
 				console.error(error);
 				toast.error("Failed to generate response");
 			}
 		},
+		[buildSendContext, ensureChatReady, ensureComparisonReady],
+	);
+
+	// Mirrors what `sendMessage` compiles, so the preview is the request itself.
+	const handlePreviewContext = useCallback(
+		async (draft: MessageContent): Promise<TrimmedContext | null> => {
+			const chatProvider = ensureChatReady();
+			if (!chatProvider) {
+				return null;
+			}
+			const tailId = activeTail();
+			const path = tailId ? compilePathTo(tailId) : [];
+			const hasDraft =
+				typeof draft === "string" ? draft.trim().length > 0 : draft.length > 0;
+			const pending: Message[] = hasDraft
+				? [{ role: "user", content: draft, _metadata: { uuid: "draft" } }]
+				: [];
+			const continuesTail =
+				!hasDraft && path[path.length - 1]?.role === "assistant";
+			const reply: Message = {
+				role: "assistant",
+				content: "",
+				_metadata: { uuid: "reply" },
+			};
+			const trimmed = await compileRequestContext(
+				continuesTail ? path : [...path, ...pending, reply],
+				chatProvider,
+				truncation,
+			);
+			return {
+				...trimmed,
+				messages: trimmed.messages.filter((message) => message !== reply),
+			};
+		},
+		[activeTail, compilePathTo, ensureChatReady, truncation],
+	);
+
+	const handleRegenerate = useCallback(
+		async (messageId: string, modelId?: string) => {
+			const target = useConversationTree.getState().nodes[messageId];
+			if (!target || target.role !== "assistant") {
+				return;
+			}
+			const chatProvider = ensureChatReady(modelId);
+			if (!chatProvider) {
+				return;
+			}
+			if (editingMessageId) {
+				resetComposerState();
+			}
+			try {
+				await regenerateMessage(messageId, {
+					...buildSendContext(chatProvider),
+					predecessorOf,
+				});
+			} catch (error) {
+				console.error(error);
+				toast.error("Failed to regenerate response");
+			}
+		},
 		[
-			activeTail,
-			activeTargetId,
-			appendToNode,
-			compilePathTo,
-			createAssistantAfter,
-			createSystemMessage,
-			createUserAfter,
-			defaultSystemPrompt,
+			buildSendContext,
+			editingMessageId,
 			ensureChatReady,
-			setActiveTarget,
-			setIsGenerating,
-			setNodeStatus,
+			predecessorOf,
+			resetComposerState,
+		],
+	);
+
+	const handleRetryFailed = useCallback(
+		async (messageId: string) => {
+			const target = useConversationTree.getState().nodes[messageId];
+			if (!target || target.role !== "assistant") {
+				return;
+			}
+			const chatProvider = ensureChatReady();
+			if (!chatProvider) {
+				return;
+			}
+			if (editingMessageId) {
+				resetComposerState();
+			}
+			try {
+				await retryMessage(messageId, buildSendContext(chatProvider));
+			} catch (error) {
+				console.error(error);
+				toast.error("Failed to retry response");
+			}
+		},
+		[buildSendContext, editingMessageId, ensureChatReady, resetComposerState],
+	);
+
+	const handleContinue = useCallback(
+		async (messageId: string) => {
+			const target = useConversationTree.getState().nodes[messageId];
+			if (
+				!target ||
+				target.role !== "assistant" ||
+				streamManager.isActive(messageId)
+			) {
+				return;
+			}
+			const chatProvider = ensureChatReady();
+			if (!chatProvider) {
+				return;
+			}
+			if (chatProvider.kind === "replay") {
+				toast.error("Replay cannot continue a reply");
+				return;
+			}
+			if (editingMessageId) {
+				resetComposerState();
+			}
+			try {
+				await continueMessage(messageId, buildSendContext(chatProvider));
+			} catch (error) {
+				console.error(error);
+				toast.error("Failed to continue response");
+			}
+		},
+		[
+			buildSendContext,
+			editingMessageId,
+			ensureChatReady,
+			resetComposerState,
 			streamManager,
 		],
 	);
 
+	const handleRunCode = useCallback(
+		async (messageId: string, code: string) => {
+			const result = await runInSandbox(code);
+			if (!useConversationTree.getState().nodes[messageId]) {
+				return;
+			}
+			const toolId = createToolResultAfter(
+				messageId,
+				{
+					// No call precedes a manual run; the id only has to be unique.
+					toolCallId: uuidv4(),
+					toolName: JAVASCRIPT_TOOL_NAME,
+					...(isSandboxFailure(result) ? { isError: true } : {}),
+				},
+				formatSandboxResult(result),
+			);
+			setActiveTarget(toolId);
+		},
+		[createToolResultAfter, setActiveTarget],
+	);
+
 	const handleDuplicateFromNode = useCallback(
 		(nodeId: string) => {
 			void cloneNode(nodeId);
@@ -350,16 +659,33 @@ export const useConversationController = ({
 		],
 	);
 
+	// Navigation keeps the draft in the composer; only an edit whose message
+	// leaves the shown path is cancelled.
 	const handleActivateThread = useCallback(
 		(targetId: string | undefined) => {
 			if (!targetId) {
 				return;
 			}
 			setActiveTarget(targetId);
-			resetComposerState();
-			setIsGenerating(false);
+			if (
+				editingMessageId &&
+				!useConversationTree
+					.getState()
+					.tracePathIds(targetId)
+					.includes(editingMessageId)
+			) {
+				resetComposerState();
+			}
+			setIsGenerating(streamManager.hasActive());
+		},
+		[editingMessageId, resetComposerState, setActiveTarget, streamManager],
+	);
+
+	const handleSelectSibling = useCallback(
+		(siblingId: string) => {
+			handleActivateThread(newestLeafUnder(siblingId));
 		},
-		[resetComposerState, setActiveTarget],
+		[handleActivateThread, newestLeafUnder],
 	);
 
 	const handleRerollFromToken = useCallback(
@@ -411,7 +737,6 @@ export const useConversationController = ({
 				segment: targetToken.segment,
 			};
 			const seedTokens = [...prefixTokens, replacementEntry];
-			const seedText = seedTokens.map((entry) => entry.token).join("");
 			const seedReasoning = seedTokens
 				.filter((entry) => entry.segment === "reasoning")
 				.map((entry) => entry.token)
@@ -421,83 +746,36 @@ export const useConversationController = ({
 				.map((entry) => entry.token)
 				.join("");
 			const assistantId = createAssistantAfter(parentId);
-			setNodeStatus(assistantId, "streaming");
-			setActiveTarget(assistantId);
 			appendToNode(assistantId, {
 				content: seedContent || undefined,
 				reasoning: seedReasoning || undefined,
 				tokenLogprobs: seedTokens,
 			});
-			const abortController = new AbortController();
-			streamManager.register(assistantId, abortController);
-			void (async () => {
-				try {
-					setIsGenerating(true);
-					if (readiness.kind === "dummy") {
-						// Dummy provider
-						const dummyProvider = createDummyProvider({
-							tokensPerSecond: readiness.tokensPerSecond,
-						});
-						const parentContext = compilePathTo(parentId);
-						const stream = streamText({
-							model: dummyProvider.chatModel(readiness.modelId),
-							messages: toModelMessages(parentContext, seedText || undefined),
-							abortSignal: abortController.signal,
-						});
-						await processFullStream(stream.fullStream, {
-							append: (delta) => appendToNode(assistantId, delta),
-						});
-						setNodeStatus(assistantId, "final");
-					} else {
-						// OpenAI-compatible provider
-						const stream = streamText({
-							model: readiness.openAIProvider.chatModel(readiness.modelId),
-							messages: toModelMessages(
-								compilePathTo(parentId),
-								seedText || undefined,
-							),
-							temperature: 0.3,
-							abortSignal: abortController.signal,
-							includeRawChunks: true,
-							providerOptions: buildChatLogprobOptions(
-								OPENAI_COMPATIBLE_PROVIDER_NAME,
-							),
-						});
-						await processFullStream(stream.fullStream, {
-							append: (delta) => appendToNode(assistantId, delta),
-							parseRawChunk: parseChatLogprobsChunk,
-						});
-						setNodeStatus(assistantId, "final");
-					}
-				} catch (error) {
-					if (abortController.signal.aborted) {
-						setNodeStatus(assistantId, "draft");
-					} else {
-						setNodeStatus(assistantId, "error");
-						toast.error("Failed to regenerate from token");
-						console.error(error);
-					}
-				} finally {
-					if (streamManager.getLatest() === assistantId) {
-						setIsGenerating(false);
-					}
-					streamManager.clearLatestIf(assistantId);
-				}
-			})();
+			setActiveTarget(assistantId);
+			if (editingMessageId) {
+				resetComposerState();
+			}
+			// The seeded node is continued like any other reply, so tool rounds
+			// and auto-retry apply to the rest of it.
+			continueMessage(assistantId, buildSendContext(readiness)).catch(
+				(error) => {
+					console.error(error);
+					toast.error("Failed to regenerate from token");
+				},
+			);
 			return assistantId;
 		},
 		[
 			abortActiveStreams,
 			appendToNode,
-			compilePathTo,
+			buildSendContext,
 			createAssistantAfter,
+			editingMessageId,
 			ensureChatReady,
 			isGenerating,
 			predecessorOf,
+			resetComposerState,
 			setActiveTarget,
-			setIsGenerating,
-			setNodeStatus,
-			streamManager,
 		],
 	);
 
@@ -509,6 +787,11 @@ export const useConversationController = ({
 		isPromptDirty,
 		setIsPromptDirty,
 		send: handleSend,
+		regenerate: handleRegenerate,
+		previewContext: handlePreviewContext,
+		retryFailed: handleRetryFailed,
+		continueReply: handleContinue,
+		runCode: handleRunCode,
 		stop: abortActiveStreams,
 		deleteMessage: handleDeleteMessage,
 		detachMessage: handleDetachMessage,
@@ -518,6 +801,12 @@ export const useConversationController = ({
 		clearConversation,
 		duplicateFromNode: handleDuplicateFromNode,
 		activateThread: handleActivateThread,
+		siblingsByNode,
+		selectSibling: handleSelectSibling,
+		setStarred: setNodeStarred,
+		setRank: setNodeRank,
+		candidateMessages,
+		stopStream,
 		exportSnapshot,
 		importSnapshot,
 		abortActiveStreams,
@@ -527,5 +816,8 @@ export const useConversationController = ({
 		setActiveTarget,
 		activeTail,
 		rerollFromToken: handleRerollFromToken,
+		undo: handleUndo,
+		redo: handleRedo,
+		goToHistoryEntry: handleGoToHistoryEntry,
 	};
 };
@@ -1,6 +1,7 @@
 import { useEffect } from "react";
 
 interface UseEnsureSystemMessageOptions {
+	isReady?: boolean;
 	isTreeEmpty: () => boolean;
 	chatMessagesLength: number;
 	createSystemMessage: (text: string) => string;
@@ -9,6 +10,7 @@ interface UseEnsureSystemMessageOptions {
 }
 
 export const useEnsureSystemMessage = ({
+	isReady = true,
 	isTreeEmpty,
 	chatMessagesLength,
 	createSystemMessage,
@@ -16,7 +18,7 @@ export const useEnsureSystemMessage = ({
 	defaultSystemPrompt,
 }: UseEnsureSystemMessageOptions) => {
 	useEffect(() => {
-		if (isTreeEmpty() && chatMessagesLength === 0) {
+		if (isReady && isTreeEmpty() && chatMessagesLength === 0) {
 			const systemId = createSystemMessage(defaultSystemPrompt);
 			setActiveTarget(systemId);
 		}
@@ -24,6 +26,7 @@ export const useEnsureSystemMessage = ({
 		chatMessagesLength,
 		createSystemMessage,
 		defaultSystemPrompt,
+		isReady,
 		isTreeEmpty,
 		setActiveTarget,
 	]);
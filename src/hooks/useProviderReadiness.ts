@@ -1,11 +1,19 @@
 import type { LanguageModel } from "ai";
 import { useCallback } from "react";
 import { toast } from "sonner";
+import { type ReplayTiming, parseCassette } from "../ai/cassette";
+import { resolveContextLength } from "../ai/contextWindow";
+import { resolveGenerationSettings } from "../ai/generationSettings";
+import { buildOpenAICompatibleProvider } from "../ai/openaiCompatible";
 import type {
 	BuiltInAvailability,
 	ChatProviderReady,
+	ComparisonTarget,
 	CompletionProviderReady,
+	DummyFaults,
+	GenerationSettings,
 	OpenAIProviderAdapter,
+	ProviderEntry,
 	ProviderKind,
 } from "../types";
 
@@ -18,8 +26,45 @@ interface UseProviderReadinessOptions {
 	baseURL: string;
 	apiKey: string;
 	tokensPerSecond?: number;
+	dummyScript?: string;
+	dummyFaults?: DummyFaults;
+	cassette?: string;
+	replayTiming?: ReplayTiming;
+	getGenerationSettings: (modelId: string | null) => GenerationSettings;
+	getContextLength: (modelId: string | null) => number | undefined;
+	providers: ProviderEntry[];
+	comparisonTargets: ComparisonTarget[];
 }
 
+const buildReplayReady = (
+	config: ProviderEntry["config"],
+	modelId: string | null,
+	generation: GenerationSettings,
+): ChatProviderReady | null => {
+	if (!config.cassette) {
+		toast.error("Load a cassette in Settings before sending");
+		return null;
+	}
+	try {
+		const cassette = parseCassette(config.cassette);
+		return {
+			kind: "replay",
+			modelId: modelId ?? cassette.modelId,
+			cassette,
+			tokensPerSecond:
+				config.replayTiming === "fixed"
+					? config.tokensPerSecond ?? 10
+					: undefined,
+			generation,
+		};
+	} catch (error) {
+		toast.error(
+			error instanceof Error ? error.message : "Failed to read the cassette",
+		);
+		return null;
+	}
+};
+
 export const useProviderReadiness = ({
 	providerKind,
 	builtInAvailability,
@@ -29,54 +74,88 @@ export const useProviderReadiness = ({
 	baseURL,
 	apiKey,
 	tokensPerSecond,
+	dummyScript,
+	dummyFaults,
+	cassette,
+	replayTiming,
+	getGenerationSettings,
+	getContextLength,
+	providers,
+	comparisonTargets,
 }: UseProviderReadinessOptions) => {
-	const ensureChatReady = useCallback((): ChatProviderReady | null => {
-		if (providerKind === "dummy") {
-			if (!activeModel) {
-				toast.error("Select a model before sending");
-				return null;
+	// `modelId` lets one request target a model other than the header's
+	// selection; built-in AI has a single model and ignores it.
+	const ensureChatReady = useCallback(
+		(modelId: string | null = activeModel): ChatProviderReady | null => {
+			if (providerKind === "replay") {
+				return buildReplayReady(
+					{ cassette, replayTiming, tokensPerSecond },
+					modelId,
+					getGenerationSettings(modelId),
+				);
 			}
-			return {
-				kind: "dummy",
-				modelId: activeModel,
-				tokensPerSecond: tokensPerSecond ?? 10,
-			};
-		}
-		if (providerKind === "openai-compatible") {
-			if (!activeModel) {
-				toast.error("Select a model before sending");
-				return null;
+			if (providerKind === "dummy") {
+				if (!modelId) {
+					toast.error("Select a model before sending");
+					return null;
+				}
+				return {
+					kind: "dummy",
+					modelId,
+					tokensPerSecond: tokensPerSecond ?? 10,
+					script: dummyScript,
+					faults: dummyFaults,
+					generation: getGenerationSettings(modelId),
+					contextLength: getContextLength(modelId),
+				};
 			}
-			if (!openAIProvider) {
-				toast.error("Set an API base URL before sending");
+			if (providerKind === "openai-compatible") {
+				if (!modelId) {
+					toast.error("Select a model before sending");
+					return null;
+				}
+				if (!openAIProvider) {
+					toast.error("Set an API base URL before sending");
+					return null;
+				}
+				return {
+					kind: "openai-compatible",
+					modelId,
+					openAIProvider,
+					baseURL,
+					apiKey,
+					generation: getGenerationSettings(modelId),
+					contextLength: getContextLength(modelId),
+				};
+			}
+			if (builtInAvailability !== "available") {
+				toast.error("Download the built-in model in Settings before chatting");
 				return null;
 			}
 			return {
-				kind: "openai-compatible",
-				modelId: activeModel,
-				openAIProvider,
-				baseURL,
-				apiKey,
+				kind: "built-in",
+				getBuiltInChatModel,
+				generation: getGenerationSettings(null),
+				contextLength: getContextLength(null),
 			};
-		}
-		if (builtInAvailability !== "available") {
-			toast.error("Download the built-in model in Settings before chatting");
-			return null;
-		}
-		return {
-			kind: "built-in",
+		},
+		[
+			activeModel,
+			builtInAvailability,
 			getBuiltInChatModel,
-		};
-	}, [
-		activeModel,
-		builtInAvailability,
-		getBuiltInChatModel,
-		apiKey,
-		baseURL,
-		openAIProvider,
-		providerKind,
-		tokensPerSecond,
-	]);
+			apiKey,
+			baseURL,
+			cassette,
+			dummyFaults,
+			dummyScript,
+			getContextLength,
+			getGenerationSettings,
+			openAIProvider,
+			providerKind,
+			replayTiming,
+			tokensPerSecond,
+		],
+	);
 
 	const ensureCompletionReady =
 		useCallback((): CompletionProviderReady | null => {
@@ -89,10 +168,17 @@ export const useProviderReadiness = ({
 					kind: "dummy",
 					modelId: activeModel,
 					tokensPerSecond: tokensPerSecond ?? 10,
+					script: dummyScript,
+					faults: dummyFaults,
+					generation: getGenerationSettings(activeModel),
 				};
 			}
 			if (providerKind !== "openai-compatible") {
-				toast.error("Built-in AI supports chat only");
+				toast.error(
+					providerKind === "replay"
+						? "Replay supports chat only"
+						: "Built-in AI supports chat only",
+				);
 				return null;
 			}
 			if (!activeModel) {
@@ -109,15 +195,103 @@ export const useProviderReadiness = ({
 				openAIProvider,
 				baseURL,
 				apiKey,
+				generation: getGenerationSettings(activeModel),
 			};
 		}, [
 			activeModel,
 			apiKey,
 			baseURL,
+			dummyFaults,
+			dummyScript,
+			getGenerationSettings,
 			openAIProvider,
 			providerKind,
 			tokensPerSecond,
 		]);
 
-	return { ensureChatReady, ensureCompletionReady };
+	// Unlike `ensureChatReady`, every target brings its own provider entry, so
+	// clients are built here instead of reusing the active one.
+	const ensureComparisonReady = useCallback((): ChatProviderReady[] | null => {
+		if (comparisonTargets.length < 2) {
+			toast.error("Pick at least two models to compare");
+			return null;
+		}
+		const ready: ChatProviderReady[] = [];
+		for (const target of comparisonTargets) {
+			const entry = providers.find(
+				(provider) => provider.id === target.providerId,
+			);
+			if (!entry) {
+				toast.error("A compared provider no longer exists");
+				return null;
+			}
+			const generation = resolveGenerationSettings(entry, target.modelId);
+			const contextLength = resolveContextLength(entry, target.modelId);
+			if (entry.kind === "built-in") {
+				if (builtInAvailability !== "available") {
+					toast.error(
+						"Download the built-in model in Settings before chatting",
+					);
+					return null;
+				}
+				ready.push({
+					kind: "built-in",
+					getBuiltInChatModel,
+					generation,
+					contextLength,
+				});
+				continue;
+			}
+			if (entry.kind === "replay") {
+				const replay = buildReplayReady(
+					entry.config,
+					target.modelId,
+					generation,
+				);
+				if (!replay) {
+					return null;
+				}
+				ready.push(replay);
+				continue;
+			}
+			if (!target.modelId) {
+				toast.error(`Select a model for ${entry.name}`);
+				return null;
+			}
+			if (entry.kind === "dummy") {
+				ready.push({
+					kind: "dummy",
+					modelId: target.modelId,
+					tokensPerSecond: entry.config.tokensPerSecond ?? 10,
+					script: entry.config.script,
+					faults: entry.config.faults,
+					generation,
+					contextLength,
+				});
+				continue;
+			}
+			const entryBaseURL = entry.config.baseURL ?? "";
+			const entryAPIKey = entry.config.apiKey ?? "";
+			const entryProvider = buildOpenAICompatibleProvider({
+				baseURL: entryBaseURL,
+				apiKey: entryAPIKey,
+			});
+			if (!entryProvider) {
+				toast.error(`Set an API base URL for ${entry.name}`);
+				return null;
+			}
+			ready.push({
+				kind: "openai-compatible",
+				modelId: target.modelId,
+				openAIProvider: entryProvider,
+				baseURL: entryBaseURL,
+				apiKey: entryAPIKey,
+				generation,
+				contextLength,
+			});
+		}
+		return ready;
+	}, [builtInAvailability, comparisonTargets, getBuiltInChatModel, providers]);
+
+	return { ensureChatReady, ensureCompletionReady, ensureComparisonReady };
 };
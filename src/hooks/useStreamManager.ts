@@ -2,20 +2,27 @@ import { useRef } from "react";
 
 interface StreamManager {
 	register: (id: string, controller: AbortController) => void;
+	release: (id: string) => void;
 	abort: (id: string) => void;
 	abortAll: () => void;
-	setLatest: (id: string | undefined) => void;
-	clearLatestIf: (id: string) => void;
-	getLatest: () => string | undefined;
+	isActive: (id: string) => boolean;
+	hasActive: () => boolean;
 }
 
+/**
+ * Tracks one abort controller per streaming node so several replies can stream
+ * side by side and be stopped individually.
+ */
 export const useStreamManager = (): StreamManager => {
 	const controllersRef = useRef<Record<string, AbortController>>({});
-	const latestAssistantIdRef = useRef<string | undefined>(undefined);
 
 	const register = (id: string, controller: AbortController) => {
 		controllersRef.current[id] = controller;
-		latestAssistantIdRef.current = id;
+	};
+
+	// Forgets a stream that finished on its own.
+	const release = (id: string) => {
+		delete controllersRef.current[id];
 	};
 
 	const abort = (id: string) => {
@@ -25,9 +32,6 @@ export const useStreamManager = (): StreamManager => {
 		}
 		controller.abort();
 		delete controllersRef.current[id];
-		if (latestAssistantIdRef.current === id) {
-			latestAssistantIdRef.current = undefined;
-		}
 	};
 
 	const abortAll = () => {
@@ -35,24 +39,15 @@ export const useStreamManager = (): StreamManager => {
 			controller.abort();
 		});
 		controllersRef.current = {};
-		latestAssistantIdRef.current = undefined;
-	};
-
-	const clearLatestIf = (id: string) => {
-		if (latestAssistantIdRef.current === id) {
-			latestAssistantIdRef.current = undefined;
-		}
 	};
 
 	return {
 		register,
+		release,
 		abort,
 		abortAll,
-		setLatest: (id) => {
-			latestAssistantIdRef.current = id;
-		},
-		clearLatestIf,
-		getLatest: () => latestAssistantIdRef.current,
+		isActive: (id) => id in controllersRef.current,
+		hasActive: () => Object.keys(controllersRef.current).length > 0,
 	};
 };
 
@@ -2,13 +2,16 @@ import { streamText } from "ai";
 import { useCallback, useRef, useState } from "react";
 import { toast } from "sonner";
 import { useImmer } from "use-immer";
+import { recordStream } from "../ai/cassette";
 import { createDummyProvider } from "../ai/dummyProvider";
-import { OPENAI_COMPATIBLE_PROVIDER_NAME } from "../ai/openaiCompatible";
 import {
-	buildCompletionLogprobOptions,
-	parseCompletionLogprobsChunk,
-} from "../ai/openaiLogprobs";
+	buildCallSettings,
+	buildOpenAICompatibleProviderOptions,
+} from "../ai/generationSettings";
+import { OPENAI_COMPATIBLE_PROVIDER_NAME } from "../ai/openaiCompatible";
+import { parseCompletionLogprobsChunk } from "../ai/openaiLogprobs";
 import { processFullStream } from "../ai/streamUtils";
+import { getCassetteRecorder } from "../state/useRecordingStore";
 import type {
 	CompletionProviderReady,
 	TokenAlternative,
@@ -53,10 +56,13 @@ export const useTextCompletion = ({
 					// Dummy provider
 					const dummyProvider = createDummyProvider({
 						tokensPerSecond: readiness.tokensPerSecond,
+						script: readiness.script,
+						faults: readiness.faults,
 					});
 					const stream = streamText({
 						model: dummyProvider.completionModel(readiness.modelId),
 						prompt: seedText,
+						...buildCallSettings(readiness.generation),
 						abortSignal: abortController.signal,
 						providerOptions: {
 							dummy: {
@@ -82,14 +88,24 @@ export const useTextCompletion = ({
 					const stream = streamText({
 						model: readiness.openAIProvider.completionModel(readiness.modelId),
 						prompt: seedText,
-						temperature: 0.3,
+						...buildCallSettings(readiness.generation, { nativeTopK: false }),
 						abortSignal: abortController.signal,
 						includeRawChunks: true,
-						providerOptions: buildCompletionLogprobOptions(
+						providerOptions: buildOpenAICompatibleProviderOptions(
 							OPENAI_COMPATIBLE_PROVIDER_NAME,
+							readiness.generation,
+							"completion",
 						),
 					});
-					await processFullStream(stream.fullStream, {
+					const recordCassette = getCassetteRecorder();
+					const fullStream = recordCassette
+						? recordStream(
+								stream.fullStream,
+								{ modelId: readiness.modelId, mode: "completion" },
+								recordCassette,
+							)
+						: stream.fullStream;
+					await processFullStream(fullStream, {
 						append: (delta) => {
 							if (delta.content) {
 								setTextContent((draft) => draft + delta.content!);
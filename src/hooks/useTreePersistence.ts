@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { useWorkspaceStore } from "../state/useWorkspaceStore";
+import { loadPersistedTree, persistTreeChanges } from "../tree/persistence";
+import type { NodeID, TreeNode } from "../tree/types";
+import { useConversationTree } from "../tree/useConversationTree";
+
+interface UseTreePersistenceOptions {
+	conversationId: string | null;
+	debounceMs?: number;
+	maxWaitMs?: number;
+}
+
+const PREVIEW_LENGTH = 80;
+
+const buildPreview = (nodes: Record<NodeID, TreeNode>) => {
+	let firstUser: TreeNode | undefined;
+	for (const node of Object.values(nodes)) {
+		if (
+			node.role === "user" &&
+			(!firstUser || node.createdAt < firstUser.createdAt)
+		) {
+			firstUser = node;
+		}
+	}
+	if (!firstUser) {
+		return undefined;
+	}
+	const text =
+		typeof firstUser.content === "string"
+			? firstUser.content
+			: firstUser.content
+					.filter((part) => part.type === "text")
+					.map((part) => part.text)
+					.join(" ");
+	const collapsed = text.replace(/\s+/g, " ").trim();
+	return collapsed ? collapsed.slice(0, PREVIEW_LENGTH) : undefined;
+};
+
+export const useTreePersistence = ({
+	conversationId,
+	debounceMs = 400,
+	maxWaitMs = 2000,
+}: UseTreePersistenceOptions) => {
+	const [hydratedId, setHydratedId] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!conversationId) {
+			return;
+		}
+		let cancelled = false;
+		const tree = useConversationTree.getState();
+		tree.reset();
+		void (async () => {
+			try {
+				const nodes = await loadPersistedTree(conversationId);
+				if (cancelled || Object.keys(nodes).length === 0) {
+					return;
+				}
+				const entry = useWorkspaceStore
+					.getState()
+					.conversations.find((item) => item.id === conversationId);
+				tree.importSnapshot(
+					{
+						version: 2,
+						exportedAt: new Date(entry?.updatedAt ?? Date.now()).toISOString(),
+						tree: { nodes },
+						activeTargetId: entry?.activeTargetId,
+					},
+					{ fresh: true },
+				);
+			} catch (error) {
+				console.error(error);
+			} finally {
+				if (!cancelled) {
+					setHydratedId(conversationId);
+				}
+			}
+		})();
+		return () => {
+			cancelled = true;
+		};
+	}, [conversationId]);
+
+	const isHydrated = conversationId !== null && hydratedId === conversationId;
+
+	useEffect(() => {
+		if (!conversationId || !isHydrated) {
+			return;
+		}
+		let persistedNodes: Record<NodeID, TreeNode> =
+			useConversationTree.getState().nodes;
+		// What IndexedDB holds; only advanced once a write succeeds, so a
+		// failed diff is retried as part of the next one.
+		let writtenNodes = persistedNodes;
+		let persistedActiveId = useConversationTree.getState().activeTargetId;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		let pendingSince: number | undefined;
+		let writeChain = Promise.resolve();
+
+		const flush = () => {
+			if (timer) {
+				clearTimeout(timer);
+				timer = undefined;
+			}
+			pendingSince = undefined;
+			const { nodes, activeTargetId } = useConversationTree.getState();
+			if (nodes === persistedNodes && activeTargetId === persistedActiveId) {
+				return;
+			}
+			// Deleting the active conversation unmounts this effect; its tree must
+			// not be written back.
+			const workspace = useWorkspaceStore.getState();
+			if (!workspace.conversations.some((item) => item.id === conversationId)) {
+				return;
+			}
+			const modified = nodes !== persistedNodes;
+			persistedNodes = nodes;
+			persistedActiveId = activeTargetId;
+			writeChain = writeChain
+				.then(async () => {
+					await persistTreeChanges(conversationId, writtenNodes, nodes);
+					writtenNodes = nodes;
+					await workspace.recordConversationChange(conversationId, {
+						activeTargetId,
+						preview: buildPreview(nodes),
+						modified,
+					});
+				})
+				.catch((error) => {
+					console.error(error);
+					// Let the next flush run even if nothing changes in between.
+					persistedNodes = writtenNodes;
+				});
+		};
+
+		// Streaming appends arrive per token, so writes are debounced but still
+		// forced out every `maxWaitMs` while a long generation is running.
+		const schedule = () => {
+			const now = Date.now();
+			pendingSince ??= now;
+			if (timer) {
+				clearTimeout(timer);
+			}
+			const wait = Math.max(
+				0,
+				Math.min(debounceMs, pendingSince + maxWaitMs - now),
+			);
+			timer = setTimeout(flush, wait);
+		};
+
+		const unsubscribe = useConversationTree.subscribe((state, prev) => {
+			if (
+				state.nodes !== prev.nodes ||
+				state.activeTargetId !== prev.activeTargetId
+			) {
+				schedule();
+			}
+		});
+
+		const handleVisibilityChange = () => {
+			if (document.visibilityState === "hidden") {
+				flush();
+			}
+		};
+
+		window.addEventListener("pagehide", flush);
+		document.addEventListener("visibilitychange", handleVisibilityChange);
+
+		return () => {
+			unsubscribe();
+			window.removeEventListener("pagehide", flush);
+			document.removeEventListener("visibilitychange", handleVisibilityChange);
+			flush();
+		};
+	}, [conversationId, debounceMs, isHydrated, maxWaitMs]);
+
+	return { isHydrated };
+};
@@ -0,0 +1,40 @@
+import { v4 as uuidv4 } from "uuid";
+import { create } from "zustand";
+import type { Cassette } from "../ai/cassette";
+
+// Only the latest recordings are kept; older ones should have been downloaded.
+const MAX_RECORDINGS = 20;
+
+export interface Recording {
+	id: string;
+	cassette: Cassette;
+}
+
+interface RecordingState {
+	isRecording: boolean;
+	recordings: Recording[];
+	setIsRecording: (enabled: boolean) => void;
+	addRecording: (cassette: Cassette) => void;
+	clearRecordings: () => void;
+}
+
+/** Session-only: recordings live in memory until they are downloaded. */
+export const useRecordingStore = create<RecordingState>((set) => ({
+	isRecording: false,
+	recordings: [],
+	setIsRecording: (enabled) => set({ isRecording: enabled }),
+	addRecording: (cassette) =>
+		set((state) => ({
+			recordings: [{ id: uuidv4(), cassette }, ...state.recordings].slice(
+				0,
+				MAX_RECORDINGS,
+			),
+		})),
+	clearRecordings: () => set({ recordings: [] }),
+}));
+
+/** Where new cassettes go while recording is on; undefined otherwise. */
+export const getCassetteRecorder = () => {
+	const { isRecording, addRecording } = useRecordingStore.getState();
+	return isRecording ? addRecording : undefined;
+};
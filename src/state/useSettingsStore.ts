@@ -2,10 +2,23 @@ import { builtInAI } from "@built-in-ai/core";
 import { get as getValue, set as setValue } from "idb-keyval";
 import { toast } from "sonner";
 import { create } from "zustand";
+import { REPLAY_PROVIDER_NAME, listCassetteModels } from "../ai/cassette";
+import { DEFAULT_TRUNCATION } from "../ai/contextTruncation";
 import { DUMMY_PROVIDER_NAME, fetchDummyModels } from "../ai/dummyProvider";
+import { generationSettingsKey } from "../ai/generationSettings";
 import { fetchOpenAICompatibleModels } from "../ai/openaiCompatible";
+import { DEFAULT_AUTO_RETRY } from "../ai/retry";
 import { settingsKey } from "../constants/storageKeys";
-import type { BuiltInAvailability, ModelInfo, ProviderEntry } from "../types";
+import type {
+	AutoRetrySettings,
+	BuiltInAvailability,
+	ComparisonTarget,
+	GenerationSettings,
+	ModelInfo,
+	ProviderEntry,
+	ToolDefinition,
+	TruncationSettings,
+} from "../types";
 
 import { v4 as uuidv4 } from "uuid";
 
@@ -23,6 +36,11 @@ type StoredSettings = {
 	enableBeforeUnloadWarning: boolean;
 	enableTokenHeatmap: boolean;
 	heatmapTheme: HeatmapTheme;
+	comparisonTargets?: ComparisonTarget[];
+	tools?: ToolDefinition[];
+	enableJavaScriptTool?: boolean;
+	autoRetry?: AutoRetrySettings;
+	truncation?: TruncationSettings;
 	// Legacy fields retained for backward compatibility; they are ignored in favor of per-provider storage
 	models?: ModelInfo[];
 	activeModel?: string | null;
@@ -34,12 +52,32 @@ interface SettingsState {
 	enableBeforeUnloadWarning: boolean;
 	enableTokenHeatmap: boolean;
 	heatmapTheme: HeatmapTheme;
+	comparisonTargets: ComparisonTarget[];
+	tools: ToolDefinition[];
+	enableJavaScriptTool: boolean;
+	autoRetry: AutoRetrySettings;
+	truncation: TruncationSettings;
 	builtInAvailability: BuiltInAvailability;
 	isHydrated: boolean;
 	setActiveModel: (model: string | null) => void;
+	setGenerationSettings: (
+		providerId: string,
+		modelId: string | null,
+		settings: GenerationSettings | null,
+	) => Promise<void>;
+	setContextLength: (
+		providerId: string,
+		modelId: string | null,
+		contextLength: number | null,
+	) => Promise<void>;
 	setEnableBeforeUnloadWarning: (enabled: boolean) => Promise<void>;
 	setEnableTokenHeatmap: (enabled: boolean) => Promise<void>;
 	setHeatmapTheme: (theme: HeatmapTheme) => Promise<void>;
+	setComparisonTargets: (targets: ComparisonTarget[]) => Promise<void>;
+	setTools: (tools: ToolDefinition[]) => Promise<void>;
+	setEnableJavaScriptTool: (enabled: boolean) => Promise<void>;
+	setAutoRetry: (settings: AutoRetrySettings) => Promise<void>;
+	setTruncation: (settings: TruncationSettings) => Promise<void>;
 	setBuiltInAvailability: (availability: BuiltInAvailability) => void;
 	refreshBuiltInAvailability: () => Promise<void>;
 	hydrate: () => Promise<void>;
@@ -56,11 +94,16 @@ interface SettingsState {
 	}) => Promise<ModelInfo[]>;
 }
 
-const isDummyModels = (models: ProviderEntry["models"]) =>
+// Model lists that came from the dummy provider or a cassette, not a server.
+const isLocalModels = (models: ProviderEntry["models"]) =>
 	Boolean(
 		models &&
 			models.length > 0 &&
-			models.every((model) => model.owned_by === DUMMY_PROVIDER_NAME),
+			models.every(
+				(model) =>
+					model.owned_by === DUMMY_PROVIDER_NAME ||
+					model.owned_by === REPLAY_PROVIDER_NAME,
+			),
 	);
 
 const resolveActiveModelId = (
@@ -84,6 +127,11 @@ export const useSettingsStore = create<SettingsState>((set, get) => {
 			enableBeforeUnloadWarning,
 			enableTokenHeatmap,
 			heatmapTheme,
+			comparisonTargets,
+			tools,
+			enableJavaScriptTool,
+			autoRetry,
+			truncation,
 		} = get();
 		await setValue(settingsKey, {
 			providers,
@@ -91,6 +139,11 @@ export const useSettingsStore = create<SettingsState>((set, get) => {
 			enableBeforeUnloadWarning,
 			enableTokenHeatmap,
 			heatmapTheme,
+			comparisonTargets,
+			tools,
+			enableJavaScriptTool,
+			autoRetry,
+			truncation,
 			...overrides,
 		});
 	};
@@ -101,6 +154,11 @@ export const useSettingsStore = create<SettingsState>((set, get) => {
 		enableBeforeUnloadWarning: true,
 		enableTokenHeatmap: false,
 		heatmapTheme: "traffic-light",
+		comparisonTargets: [],
+		tools: [],
+		enableJavaScriptTool: false,
+		autoRetry: DEFAULT_AUTO_RETRY,
+		truncation: DEFAULT_TRUNCATION,
 		builtInAvailability: "unknown",
 		isHydrated: false,
 		setActiveModel: (model) => {
@@ -135,6 +193,38 @@ export const useSettingsStore = create<SettingsState>((set, get) => {
 			set({ providers: updatedProviders });
 			void persistSettings({ providers: updatedProviders });
 		},
+		setGenerationSettings: async (providerId, modelId, settings) => {
+			const key = generationSettingsKey(modelId);
+			const updatedProviders = get().providers.map((provider) => {
+				if (provider.id !== providerId) {
+					return provider;
+				}
+				const { [key]: _previous, ...rest } = provider.generationSettings ?? {};
+				return {
+					...provider,
+					generationSettings: settings ? { ...rest, [key]: settings } : rest,
+				};
+			});
+			set({ providers: updatedProviders });
+			await persistSettings({ providers: updatedProviders });
+		},
+		setContextLength: async (providerId, modelId, contextLength) => {
+			const key = generationSettingsKey(modelId);
+			const updatedProviders = get().providers.map((provider) => {
+				if (provider.id !== providerId) {
+					return provider;
+				}
+				const { [key]: _previous, ...rest } = provider.contextLengths ?? {};
+				return {
+					...provider,
+					contextLengths: contextLength
+						? { ...rest, [key]: contextLength }
+						: rest,
+				};
+			});
+			set({ providers: updatedProviders });
+			await persistSettings({ providers: updatedProviders });
+		},
 		setEnableBeforeUnloadWarning: async (enabled) => {
 			set({ enableBeforeUnloadWarning: enabled });
 			await persistSettings({ enableBeforeUnloadWarning: enabled });
@@ -147,6 +237,26 @@ export const useSettingsStore = create<SettingsState>((set, get) => {
 			set({ heatmapTheme: theme });
 			await persistSettings({ heatmapTheme: theme });
 		},
+		setComparisonTargets: async (targets) => {
+			set({ comparisonTargets: targets });
+			await persistSettings({ comparisonTargets: targets });
+		},
+		setTools: async (tools) => {
+			set({ tools });
+			await persistSettings({ tools });
+		},
+		setEnableJavaScriptTool: async (enabled) => {
+			set({ enableJavaScriptTool: enabled });
+			await persistSettings({ enableJavaScriptTool: enabled });
+		},
+		setAutoRetry: async (settings) => {
+			set({ autoRetry: settings });
+			await persistSettings({ autoRetry: settings });
+		},
+		setTruncation: async (settings) => {
+			set({ truncation: settings });
+			await persistSettings({ truncation: settings });
+		},
 		setBuiltInAvailability: (availability) =>
 			set({ builtInAvailability: availability }),
 		refreshBuiltInAvailability: async () => {
@@ -169,6 +279,11 @@ export const useSettingsStore = create<SettingsState>((set, get) => {
 						storedSettings.enableBeforeUnloadWarning ?? true,
 					enableTokenHeatmap: storedSettings.enableTokenHeatmap ?? false,
 					heatmapTheme: storedSettings.heatmapTheme ?? "traffic-light",
+					comparisonTargets: storedSettings.comparisonTargets ?? [],
+					tools: storedSettings.tools ?? [],
+					enableJavaScriptTool: storedSettings.enableJavaScriptTool ?? false,
+					autoRetry: storedSettings.autoRetry ?? DEFAULT_AUTO_RETRY,
+					truncation: storedSettings.truncation ?? DEFAULT_TRUNCATION,
 					isHydrated: true,
 				});
 			} else {
@@ -176,11 +291,15 @@ export const useSettingsStore = create<SettingsState>((set, get) => {
 			}
 		},
 		addProvider: async (entry) => {
+			const replayModels =
+				entry.kind === "replay"
+					? listCassetteModels(entry.config.cassette)
+					: [];
 			const newProvider = {
 				...entry,
 				id: uuidv4(),
-				models: [],
-				activeModelId: null,
+				models: replayModels,
+				activeModelId: replayModels[0]?.id ?? null,
 			};
 			const { providers } = get();
 			const newProviders = [...providers, newProvider];
@@ -226,7 +345,7 @@ export const useSettingsStore = create<SettingsState>((set, get) => {
 				}
 
 				if (nextKind === "openai-compatible") {
-					const cachedModels = isDummyModels(existingProvider.models)
+					const cachedModels = isLocalModels(existingProvider.models)
 						? []
 						: existingProvider.models ?? [];
 					const cachedActiveModelId = resolveActiveModelId(
@@ -274,6 +393,15 @@ export const useSettingsStore = create<SettingsState>((set, get) => {
 				}
 			}
 
+			// A replay offers whichever model its current cassette recorded.
+			if (nextKind === "replay") {
+				nextProvider.models = listCassetteModels(nextProvider.config.cassette);
+				nextProvider.activeModelId = resolveActiveModelId(
+					nextProvider.models,
+					nextProvider.activeModelId,
+				);
+			}
+
 			const newProviders = providers.map((provider) =>
 				provider.id === id ? nextProvider : provider,
 			);
@@ -282,19 +410,27 @@ export const useSettingsStore = create<SettingsState>((set, get) => {
 			await persistSettings({ providers: newProviders });
 		},
 		removeProvider: async (id) => {
-			const { providers, activeProviderId } = get();
+			const { providers, activeProviderId, comparisonTargets } = get();
 			const newProviders = providers.filter((p) => p.id !== id);
+			const newComparisonTargets = comparisonTargets.filter(
+				(target) => target.providerId !== id,
+			);
 			let newActiveId = activeProviderId;
 
 			if (activeProviderId === id) {
 				newActiveId = newProviders[0]?.id ?? null;
 			}
 
-			set({ providers: newProviders, activeProviderId: newActiveId });
+			set({
+				providers: newProviders,
+				activeProviderId: newActiveId,
+				comparisonTargets: newComparisonTargets,
+			});
 
 			await persistSettings({
 				providers: newProviders,
 				activeProviderId: newActiveId,
+				comparisonTargets: newComparisonTargets,
 			});
 
 			if (newActiveId) {
@@ -324,6 +460,10 @@ export const useSettingsStore = create<SettingsState>((set, get) => {
 				return [];
 			}
 
+			if (activeProvider.kind === "replay") {
+				return listCassetteModels(activeProvider.config.cassette);
+			}
+
 			if (activeProvider.kind === "dummy") {
 				try {
 					const fetchedModels = await fetchDummyModels();
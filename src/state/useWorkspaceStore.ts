@@ -0,0 +1,211 @@
+import { get as getValue, set as setValue } from "idb-keyval";
+import { v4 as uuidv4 } from "uuid";
+import { create } from "zustand";
+import { workspaceKey } from "../constants/storageKeys";
+import {
+	deletePersistedTree,
+	loadPersistedTree,
+	migrateLegacyTree,
+	persistTreeChanges,
+} from "../tree/persistence";
+import { useConversationTree } from "../tree/useConversationTree";
+import type { ConversationEntry } from "../types";
+
+type StoredWorkspace = {
+	conversations: ConversationEntry[];
+	activeConversationId: string | null;
+};
+
+interface WorkspaceState {
+	conversations: ConversationEntry[];
+	activeConversationId: string | null;
+	isHydrated: boolean;
+	hydrate: () => Promise<void>;
+	createConversation: (title?: string) => Promise<string>;
+	renameConversation: (id: string, title: string) => Promise<void>;
+	duplicateConversation: (id: string) => Promise<string | undefined>;
+	deleteConversation: (id: string) => Promise<void>;
+	setActiveConversation: (id: string) => Promise<void>;
+	recordConversationChange: (
+		id: string,
+		change: {
+			activeTargetId?: string;
+			preview?: string;
+			modified: boolean;
+		},
+	) => Promise<void>;
+}
+
+const buildEntry = (
+	overrides: Partial<ConversationEntry> = {},
+): ConversationEntry => {
+	const now = Date.now();
+	return {
+		id: uuidv4(),
+		title: "",
+		createdAt: now,
+		updatedAt: now,
+		...overrides,
+	};
+};
+
+export const pickMostRecentConversation = (
+	conversations: ConversationEntry[],
+) =>
+	conversations.reduce<ConversationEntry | undefined>(
+		(latest, entry) =>
+			!latest || entry.updatedAt > latest.updatedAt ? entry : latest,
+		undefined,
+	);
+
+export const useWorkspaceStore = create<WorkspaceState>((set, get) => {
+	const persistWorkspace = async (overrides: Partial<StoredWorkspace> = {}) => {
+		const { conversations, activeConversationId } = get();
+		await setValue(workspaceKey, {
+			conversations,
+			activeConversationId,
+			...overrides,
+		} satisfies StoredWorkspace);
+	};
+
+	const loadWorkspace = async () => {
+		const stored = await getValue<StoredWorkspace>(workspaceKey);
+		if (stored && stored.conversations?.length > 0) {
+			const activeConversationId =
+				stored.conversations.find(
+					(entry) => entry.id === stored.activeConversationId,
+				)?.id ??
+				pickMostRecentConversation(stored.conversations)?.id ??
+				null;
+			set({
+				conversations: stored.conversations,
+				activeConversationId,
+				isHydrated: true,
+			});
+			return;
+		}
+		const entry = buildEntry();
+		try {
+			const legacy = await migrateLegacyTree(entry.id);
+			if (legacy) {
+				entry.activeTargetId = legacy.activeTargetId;
+				if (legacy.savedAt) {
+					entry.updatedAt = Date.parse(legacy.savedAt) || entry.updatedAt;
+				}
+			}
+		} catch (error) {
+			console.error(error);
+		}
+		set({
+			conversations: [entry],
+			activeConversationId: entry.id,
+			isHydrated: true,
+		});
+		await persistWorkspace();
+	};
+
+	// Shared so overlapping calls (e.g. StrictMode effects) cannot create or
+	// migrate the initial conversation twice.
+	let hydration: Promise<void> | undefined;
+
+	return {
+		conversations: [],
+		activeConversationId: null,
+		isHydrated: false,
+		hydrate: () => {
+			hydration ??= loadWorkspace();
+			return hydration;
+		},
+		createConversation: async (title = "") => {
+			const entry = buildEntry({ title });
+			const conversations = [...get().conversations, entry];
+			set({ conversations, activeConversationId: entry.id });
+			await persistWorkspace();
+			return entry.id;
+		},
+		renameConversation: async (id, title) => {
+			const conversations = get().conversations.map((entry) =>
+				entry.id === id ? { ...entry, title: title.trim() } : entry,
+			);
+			set({ conversations });
+			await persistWorkspace();
+		},
+		duplicateConversation: async (id) => {
+			const { conversations, activeConversationId } = get();
+			const source = conversations.find((entry) => entry.id === id);
+			if (!source) {
+				return undefined;
+			}
+			// The active tree may hold changes that have not been flushed yet.
+			const nodes =
+				id === activeConversationId
+					? useConversationTree.getState().nodes
+					: await loadPersistedTree(id);
+			const activeTargetId =
+				id === activeConversationId
+					? useConversationTree.getState().activeTargetId
+					: source.activeTargetId;
+			const entry = buildEntry({
+				title: `${source.title || source.preview || "Untitled"} (copy)`,
+				preview: source.preview,
+				activeTargetId,
+			});
+			await persistTreeChanges(entry.id, {}, nodes);
+			set({ conversations: [...get().conversations, entry] });
+			await persistWorkspace();
+			return entry.id;
+		},
+		deleteConversation: async (id) => {
+			const { conversations, activeConversationId } = get();
+			const remaining = conversations.filter((entry) => entry.id !== id);
+			if (remaining.length === conversations.length) {
+				return;
+			}
+			let nextActiveId = activeConversationId;
+			if (activeConversationId === id) {
+				const fallback = pickMostRecentConversation(remaining) ?? buildEntry();
+				if (remaining.length === 0) {
+					remaining.push(fallback);
+				}
+				nextActiveId = fallback.id;
+			}
+			set({ conversations: remaining, activeConversationId: nextActiveId });
+			await persistWorkspace();
+			await deletePersistedTree(id);
+		},
+		setActiveConversation: async (id) => {
+			if (!get().conversations.some((entry) => entry.id === id)) {
+				return;
+			}
+			set({ activeConversationId: id });
+			await persistWorkspace();
+		},
+		recordConversationChange: async (id, change) => {
+			let didChange = false;
+			const conversations = get().conversations.map((entry) => {
+				if (entry.id !== id) {
+					return entry;
+				}
+				if (
+					!change.modified &&
+					entry.activeTargetId === change.activeTargetId &&
+					entry.preview === change.preview
+				) {
+					return entry;
+				}
+				didChange = true;
+				return {
+					...entry,
+					activeTargetId: change.activeTargetId,
+					preview: change.preview,
+					updatedAt: change.modified ? Date.now() : entry.updatedAt,
+				};
+			});
+			if (!didChange) {
+				return;
+			}
+			set({ conversations });
+			await persistWorkspace();
+		},
+	};
+});
@@ -0,0 +1,125 @@
+import {
+	type UseStore,
+	createStore,
+	del,
+	delMany,
+	entries,
+	get as getValue,
+	promisifyRequest,
+	setMany,
+} from "idb-keyval";
+import {
+	treeDatabaseName,
+	treeMetaKey,
+	treeNodeStoreName,
+} from "../constants/storageKeys";
+import type { NodeID, TreeNode } from "./types";
+
+type NodeMap = Record<NodeID, TreeNode>;
+
+type NodeKey = [conversationId: string, nodeId: NodeID];
+
+interface LegacyTreeMeta {
+	activeTargetId?: NodeID;
+	savedAt: string;
+}
+
+let nodeStore: UseStore | undefined;
+
+// Created lazily so importing this module never opens a database by itself.
+const getNodeStore = () => {
+	nodeStore ??= createStore(treeDatabaseName, treeNodeStoreName);
+	return nodeStore;
+};
+
+const nodeKey = (conversationId: string, nodeId: NodeID): NodeKey => [
+	conversationId,
+	nodeId,
+];
+
+// Array keys sort after strings, so `[id, []]` bounds every `[id, nodeId]`.
+const conversationRange = (conversationId: string) =>
+	IDBKeyRange.bound([conversationId], [conversationId, []]);
+
+// A reload interrupts any generation that was in flight when it was saved.
+const settleStatus = (node: TreeNode): TreeNode =>
+	node.status === "streaming" ? { ...node, status: "draft" } : node;
+
+export const loadPersistedTree = async (
+	conversationId: string,
+): Promise<NodeMap> => {
+	const storedNodes = await getNodeStore()("readonly", (store) =>
+		promisifyRequest<TreeNode[]>(
+			store.getAll(conversationRange(conversationId)),
+		),
+	);
+	return Object.fromEntries(
+		storedNodes.map((node) => [node.id, settleStatus(node)]),
+	);
+};
+
+/**
+ * Writes only the nodes whose object identity changed since `previous`.
+ * Tree mutations never edit nodes in place, so reference equality is enough
+ * to detect untouched entries.
+ */
+export const persistTreeChanges = async (
+	conversationId: string,
+	previous: NodeMap,
+	next: NodeMap,
+) => {
+	const changed: [NodeKey, TreeNode][] = [];
+	for (const [id, node] of Object.entries(next)) {
+		if (previous[id] !== node) {
+			changed.push([nodeKey(conversationId, id), node]);
+		}
+	}
+	const removed = Object.keys(previous)
+		.filter((id) => !next[id])
+		.map((id) => nodeKey(conversationId, id));
+	const store = getNodeStore();
+	if (changed.length > 0) {
+		await setMany(changed, store);
+	}
+	if (removed.length > 0) {
+		await delMany(removed, store);
+	}
+};
+
+export const deletePersistedTree = async (conversationId: string) => {
+	await getNodeStore()("readwrite", (store) => {
+		store.delete(conversationRange(conversationId));
+		return promisifyRequest(store.transaction);
+	});
+};
+
+/**
+ * Moves a tree saved before conversations existed (plain node-id keys plus a
+ * single meta entry) under `conversationId`.
+ */
+export const migrateLegacyTree = async (conversationId: string) => {
+	const store = getNodeStore();
+	const legacyEntries = (await entries<IDBValidKey, TreeNode>(store)).filter(
+		(entry): entry is [string, TreeNode] => typeof entry[0] === "string",
+	);
+	const meta = await getValue<LegacyTreeMeta>(treeMetaKey);
+	if (legacyEntries.length === 0) {
+		return undefined;
+	}
+	await setMany(
+		legacyEntries.map(([id, node]) => [nodeKey(conversationId, id), node]),
+		store,
+	);
+	await delMany(
+		legacyEntries.map(([id]) => id),
+		store,
+	);
+	await del(treeMetaKey);
+	return {
+		nodes: Object.fromEntries(
+			legacyEntries.map(([id, node]) => [id, settleStatus(node)]),
+		) as NodeMap,
+		activeTargetId: meta?.activeTargetId,
+		savedAt: meta?.savedAt,
+	};
+};
@@ -1,4 +1,10 @@
-import type { MessageContent, TokenLogprob } from "../types";
+import type {
+	GenerationMetadata,
+	MessageContent,
+	TokenLogprob,
+	ToolCall,
+	ToolResult,
+} from "../types";
 
 export type NodeID = string;
 export type EdgeID = string;
@@ -13,6 +19,13 @@ export interface TreeNode {
 	status?: "draft" | "streaming" | "final" | "error";
 	parentId: NodeID | null;
 	tokenLogprobs?: TokenLogprob[];
+	generation?: GenerationMetadata;
+	toolCalls?: ToolCall[];
+	toolResult?: ToolResult;
+	/** Marks the path ending here as a good example for dataset exports. */
+	starred?: boolean;
+	/** Preference among sibling replies; 1 is best. */
+	rank?: number;
 }
 
 export interface TreeEdge {
@@ -28,6 +41,20 @@ export interface ConversationTree {
 	roots: NodeID[];
 }
 
+/**
+ * A reversible step in the tree's undo history. `nodes` and `activeTargetId`
+ * hold the state on the other side of the step: the state before it while the
+ * entry sits on the undo stack, the state after it once it has been undone.
+ */
+export interface TreeHistoryEntry {
+	id: string;
+	label: string;
+	at: number;
+	nodeIds?: NodeID[];
+	nodes: Record<NodeID, TreeNode>;
+	activeTargetId?: NodeID;
+}
+
 export interface ConversationSnapshotV2 {
 	version: 2;
 	exportedAt: string;
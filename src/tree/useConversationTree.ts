@@ -1,21 +1,27 @@
 import { v4 as uuidv4 } from "uuid";
 import { createWithEqualityFn } from "zustand/traditional";
 import type {
+	GenerationMetadata,
 	Message,
 	MessageContent,
 	MessageContentPart,
 	TokenLogprob,
+	ToolCall,
+	ToolResult,
 } from "../types";
 import type {
 	ConversationSnapshot,
 	ConversationTree,
 	NodeID,
 	TreeEdge,
+	TreeHistoryEntry,
 	TreeNode,
 } from "./types";
 
 interface TreeState extends ConversationTree {
 	activeTargetId?: NodeID;
+	past: TreeHistoryEntry[];
+	future: TreeHistoryEntry[];
 	isEmpty: () => boolean;
 	syncLinearTail: (messages: Message[]) => void;
 	splitBranch: (childId: NodeID) => void;
@@ -32,12 +38,19 @@ interface TreeState extends ConversationTree {
 		content: MessageContent,
 	) => NodeID;
 	createAssistantAfter: (parentId: NodeID) => NodeID;
+	createAssistantsAfter: (parentId: NodeID, count: number) => NodeID[];
+	createToolResultAfter: (
+		parentId: NodeID,
+		result: ToolResult,
+		output: string,
+	) => NodeID;
 	appendToNode: (
 		nodeId: NodeID,
 		delta: {
 			content?: string;
 			reasoning?: string;
 			tokenLogprobs?: TokenLogprob[];
+			toolCalls?: ToolCall[];
 		},
 	) => void;
 	setNodeText: (
@@ -45,11 +58,18 @@ interface TreeState extends ConversationTree {
 		text: string,
 		tokenLogprobs?: TokenLogprob[],
 	) => void;
+	clearNodeOutput: (nodeId: NodeID) => void;
 	setNodeStatus: (
 		nodeId: NodeID,
 		status: "draft" | "streaming" | "final" | "error",
 	) => void;
+	setNodeGeneration: (nodeId: NodeID, generation: GenerationMetadata) => void;
+	setNodeStarred: (nodeId: NodeID, starred: boolean) => void;
+	setNodeRank: (nodeId: NodeID, rank: number | undefined) => void;
 	predecessorOf: (nodeId: NodeID) => NodeID | undefined;
+	childrenOf: (nodeId: NodeID) => NodeID[];
+	siblingsOf: (nodeId: NodeID) => NodeID[];
+	newestLeafUnder: (nodeId: NodeID) => NodeID | undefined;
 	canReparent: (parentId: NodeID, childId: NodeID) => boolean;
 	reparentNode: (nodeId: NodeID, nextParentId: NodeID) => void;
 	cloneNode: (sourceId: NodeID) => NodeID | undefined;
@@ -62,15 +82,46 @@ interface TreeState extends ConversationTree {
 		},
 	) => NodeID | undefined;
 	removeNode: (id: NodeID) => void;
+	undo: () => void;
+	redo: () => void;
+	goToHistoryEntry: (entryId: string | null) => void;
 	reset: () => void;
 	exportSnapshot: () => ConversationSnapshot;
-	importSnapshot: (snapshot: ConversationSnapshot) => void;
+	/**
+	 * Replaces the tree as one undoable step. `fresh` starts an empty history
+	 * instead, for loading a stored conversation.
+	 */
+	importSnapshot: (
+		snapshot: ConversationSnapshot,
+		options?: { fresh?: boolean },
+	) => void;
 }
 
 type TreeExtras = Partial<Omit<TreeState, keyof ConversationTree>>;
 
 type NodeMap = Record<NodeID, TreeNode>;
 
+const HISTORY_LIMIT = 100;
+
+const recordHistory = (
+	state: TreeState,
+	label: string,
+	nodeIds?: NodeID[],
+) => ({
+	past: [
+		...state.past,
+		{
+			id: uuidv4(),
+			label,
+			at: Date.now(),
+			nodeIds,
+			nodes: state.nodes,
+			activeTargetId: state.activeTargetId,
+		} satisfies TreeHistoryEntry,
+	].slice(-HISTORY_LIMIT),
+	future: [],
+});
+
 const coerceRole = (role: string): TreeNode["role"] => {
 	if (
 		role === "system" ||
@@ -112,6 +163,37 @@ const withDerivedTree = (nodes: NodeMap, extras: TreeExtras = {}) => {
 	} satisfies Partial<TreeState>;
 };
 
+const withAssistants = (
+	state: TreeState,
+	parentId: NodeID,
+	newIds: NodeID[],
+) => {
+	const nodes: NodeMap = { ...state.nodes };
+	const createdAt = Date.now();
+	newIds.forEach((newId, index) => {
+		nodes[newId] = {
+			id: newId,
+			role: "assistant",
+			content: "",
+			reasoningContent: undefined,
+			// Offsets keep sibling order stable within one millisecond.
+			createdAt: createdAt + index,
+			status: "draft",
+			parentId,
+		};
+	});
+	return withDerivedTree(
+		nodes,
+		recordHistory(
+			state,
+			newIds.length === 1
+				? "Generate reply"
+				: `Generate ${newIds.length} replies`,
+			newIds,
+		),
+	);
+};
+
 const buildChildrenIndex = (nodes: NodeMap) => {
 	const map = new Map<NodeID, TreeNode[]>();
 	for (const node of Object.values(nodes)) {
@@ -147,6 +229,9 @@ const pickNewestLeafId = (nodes: NodeMap) => {
 	return pickNewestNode(pool)?.id;
 };
 
+const compareByCreatedAt = (a: TreeNode, b: TreeNode) =>
+	a.createdAt - b.createdAt || a.id.localeCompare(b.id);
+
 const isAncestor = (nodes: NodeMap, ancestorId: NodeID, nodeId: NodeID) => {
 	let cursor: NodeID | null | undefined = nodeId;
 	const visited = new Set<NodeID>();
@@ -163,10 +248,12 @@ const isAncestor = (nodes: NodeMap, ancestorId: NodeID, nodeId: NodeID) => {
 	return false;
 };
 
-const toMessage = (node: TreeNode): Message => ({
+export const toMessage = (node: TreeNode): Message => ({
 	role: node.role,
 	content: node.content,
 	reasoning_content: node.reasoningContent,
+	...(node.toolCalls ? { tool_calls: node.toolCalls } : {}),
+	...(node.toolResult ? { tool_result: node.toolResult } : {}),
 	_metadata: {
 		uuid: node.id,
 		...(node.tokenLogprobs
@@ -174,6 +261,10 @@ const toMessage = (node: TreeNode): Message => ({
 					tokenLogprobs: node.tokenLogprobs,
 				}
 			: {}),
+		...(node.generation ? { generation: node.generation } : {}),
+		...(node.status ? { status: node.status } : {}),
+		...(node.starred ? { starred: true } : {}),
+		...(node.rank !== undefined ? { rank: node.rank } : {}),
 	},
 });
 
@@ -221,12 +312,19 @@ const buildPathIds = (nodes: NodeMap, target: NodeID): NodeID[] => {
 	return path;
 };
 
+// Nodes whose streamed appends are folded into the latest history entry, so a
+// whole generation (or a batch of parallel ones) is undone in one step. A node
+// leaves the set once it stops streaming.
+const openAppendGroups = new Set<NodeID>();
+
 export const useConversationTree = createWithEqualityFn<TreeState>(
 	(set, get) => ({
 		nodes: {},
 		edges: {},
 		roots: [],
 		activeTargetId: undefined,
+		past: [],
+		future: [],
 		isEmpty: () => Object.keys(get().nodes).length === 0,
 		syncLinearTail: (messages) =>
 			set((state) => {
@@ -249,10 +347,15 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 						parentId,
 						tokenLogprobs:
 							message._metadata.tokenLogprobs ?? existing?.tokenLogprobs,
+						generation: message._metadata.generation ?? existing?.generation,
+						toolCalls: message.tool_calls ?? existing?.toolCalls,
+						toolResult: message.tool_result ?? existing?.toolResult,
+						starred: existing?.starred,
+						rank: existing?.rank,
 					} satisfies TreeNode;
 					parentId = id;
 				}
-				return withDerivedTree(nodes);
+				return withDerivedTree(nodes, recordHistory(state, "Sync messages"));
 			}),
 		setActiveTarget: (id) => set({ activeTargetId: id }),
 		splitBranch: (childId) =>
@@ -265,7 +368,10 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 					...state.nodes,
 					[childId]: { ...target, parentId: null },
 				};
-				return withDerivedTree(nodes);
+				return withDerivedTree(
+					nodes,
+					recordHistory(state, "Split branch", [childId]),
+				);
 			}),
 		compilePathTo: (target) => {
 			const { nodes } = get();
@@ -306,7 +412,10 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 						parentId: null,
 					},
 				};
-				return withDerivedTree(nodes);
+				return withDerivedTree(
+					nodes,
+					recordHistory(state, "Add system message", [newId]),
+				);
 			});
 			return newId;
 		},
@@ -332,11 +441,34 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 						parentId: safeParent,
 					},
 				};
-				return withDerivedTree(nodes);
+				return withDerivedTree(
+					nodes,
+					recordHistory(state, "Add user message", [newId]),
+				);
 			});
 			return newId;
 		},
 		createAssistantAfter: (parentId) => {
+			if (!get().nodes[parentId]) {
+				throw new Error(`Parent node ${parentId} not found`);
+			}
+			const newId = uuidv4();
+			set((state) => withAssistants(state, parentId, [newId]));
+			openAppendGroups.add(newId);
+			return newId;
+		},
+		createAssistantsAfter: (parentId, count) => {
+			if (!get().nodes[parentId]) {
+				throw new Error(`Parent node ${parentId} not found`);
+			}
+			const newIds = Array.from({ length: Math.max(1, count) }, () => uuidv4());
+			set((state) => withAssistants(state, parentId, newIds));
+			for (const newId of newIds) {
+				openAppendGroups.add(newId);
+			}
+			return newIds;
+		},
+		createToolResultAfter: (parentId, result, output) => {
 			if (!get().nodes[parentId]) {
 				throw new Error(`Parent node ${parentId} not found`);
 			}
@@ -346,15 +478,18 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 					...state.nodes,
 					[newId]: {
 						id: newId,
-						role: "assistant",
-						content: "",
-						reasoningContent: undefined,
+						role: "tool",
+						content: output,
 						createdAt: Date.now(),
-						status: "draft",
+						status: "final",
 						parentId,
+						toolResult: result,
 					},
 				};
-				return withDerivedTree(nodes);
+				return withDerivedTree(
+					nodes,
+					recordHistory(state, `Run tool ${result.toolName}`, [newId]),
+				);
 			});
 			return newId;
 		},
@@ -376,6 +511,10 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 					delta.tokenLogprobs && delta.tokenLogprobs.length > 0
 						? [...(node.tokenLogprobs ?? []), ...delta.tokenLogprobs]
 						: node.tokenLogprobs;
+				const nextToolCalls =
+					delta.toolCalls && delta.toolCalls.length > 0
+						? [...(node.toolCalls ?? []), ...delta.toolCalls]
+						: node.toolCalls;
 				const nodes: NodeMap = {
 					...state.nodes,
 					[nodeId]: {
@@ -383,9 +522,18 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 						content: nextContent,
 						reasoningContent: nextReasoning,
 						tokenLogprobs: nextTokenLogprobs,
+						toolCalls: nextToolCalls,
 					},
 				};
-				return { nodes } satisfies Partial<TreeState>;
+				const latest = state.past[state.past.length - 1];
+				if (openAppendGroups.has(nodeId) && latest?.nodeIds?.includes(nodeId)) {
+					return { nodes } satisfies Partial<TreeState>;
+				}
+				openAppendGroups.add(nodeId);
+				return {
+					nodes,
+					...recordHistory(state, "Continue message", [...openAppendGroups]),
+				} satisfies Partial<TreeState>;
 			}),
 		setNodeText: (nodeId, text, tokenLogprobs) =>
 			set((state) => {
@@ -401,10 +549,39 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 						tokenLogprobs,
 					},
 				};
-				return { nodes } satisfies Partial<TreeState>;
+				return {
+					nodes,
+					...recordHistory(state, "Edit text", [nodeId]),
+				} satisfies Partial<TreeState>;
+			}),
+		clearNodeOutput: (nodeId) =>
+			set((state) => {
+				const node = state.nodes[nodeId];
+				if (!node) {
+					return state;
+				}
+				openAppendGroups.delete(nodeId);
+				const nodes: NodeMap = {
+					...state.nodes,
+					[nodeId]: {
+						...node,
+						content: "",
+						reasoningContent: undefined,
+						tokenLogprobs: undefined,
+						toolCalls: undefined,
+						generation: undefined,
+					},
+				};
+				return {
+					nodes,
+					...recordHistory(state, "Discard reply", [nodeId]),
+				} satisfies Partial<TreeState>;
 			}),
 		setNodeStatus: (nodeId, status) =>
 			set((state) => {
+				if (status !== "streaming") {
+					openAppendGroups.delete(nodeId);
+				}
 				const node = state.nodes[nodeId];
 				if (!node) {
 					return state;
@@ -418,7 +595,105 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 				};
 				return { nodes } satisfies Partial<TreeState>;
 			}),
+		setNodeGeneration: (nodeId, generation) =>
+			set((state) => {
+				const node = state.nodes[nodeId];
+				if (!node) {
+					return state;
+				}
+				const nodes: NodeMap = {
+					...state.nodes,
+					[nodeId]: {
+						...node,
+						generation,
+					},
+				};
+				return { nodes } satisfies Partial<TreeState>;
+			}),
+		setNodeStarred: (nodeId, starred) =>
+			set((state) => {
+				const node = state.nodes[nodeId];
+				if (!node || Boolean(node.starred) === starred) {
+					return state;
+				}
+				const nodes: NodeMap = {
+					...state.nodes,
+					[nodeId]: { ...node, starred: starred || undefined },
+				};
+				return {
+					nodes,
+					...recordHistory(state, starred ? "Star message" : "Unstar message", [
+						nodeId,
+					]),
+				} satisfies Partial<TreeState>;
+			}),
+		setNodeRank: (nodeId, rank) =>
+			set((state) => {
+				const node = state.nodes[nodeId];
+				if (!node || node.rank === rank) {
+					return state;
+				}
+				const nodes: NodeMap = {
+					...state.nodes,
+					[nodeId]: { ...node, rank },
+				};
+				return {
+					nodes,
+					...recordHistory(
+						state,
+						rank === undefined ? "Clear rank" : `Rank reply #${rank}`,
+						[nodeId],
+					),
+				} satisfies Partial<TreeState>;
+			}),
 		predecessorOf: (nodeId) => get().nodes[nodeId]?.parentId ?? undefined,
+		childrenOf: (nodeId) =>
+			Object.values(get().nodes)
+				.filter((node) => node.parentId === nodeId)
+				.sort(compareByCreatedAt)
+				.map((node) => node.id),
+		siblingsOf: (nodeId) => {
+			const { nodes, roots } = get();
+			const node = nodes[nodeId];
+			if (!node) {
+				return [];
+			}
+			const siblings =
+				node.parentId && nodes[node.parentId]
+					? Object.values(nodes).filter(
+							(candidate) => candidate.parentId === node.parentId,
+						)
+					: roots.flatMap((id) => nodes[id] ?? []);
+			return siblings.sort(compareByCreatedAt).map((sibling) => sibling.id);
+		},
+		newestLeafUnder: (nodeId) => {
+			const { nodes } = get();
+			if (!nodes[nodeId]) {
+				return undefined;
+			}
+			const childrenIndex = buildChildrenIndex(nodes);
+			const leaves: TreeNode[] = [];
+			const stack: NodeID[] = [nodeId];
+			const visited = new Set<NodeID>();
+			while (stack.length > 0) {
+				const currentId = stack.pop() as NodeID;
+				if (visited.has(currentId)) {
+					continue;
+				}
+				visited.add(currentId);
+				const children = childrenIndex.get(currentId) ?? [];
+				if (children.length === 0) {
+					const leaf = nodes[currentId];
+					if (leaf) {
+						leaves.push(leaf);
+					}
+				}
+				for (const child of children) {
+					stack.push(child.id);
+				}
+			}
+			return pickNewestNode(leaves)?.id ?? nodeId;
+		},
 		canReparent: (parentId, childId) => {
 			const { nodes } = get();
 			if (!nodes[parentId] || !nodes[childId] || parentId === childId) {
@@ -444,7 +719,10 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 						parentId: nextParent,
 					},
 				};
-				return withDerivedTree(nodes);
+				return withDerivedTree(
+					nodes,
+					recordHistory(state, "Reparent node", [target]),
+				);
 			}),
 		cloneNode: (sourceId) => {
 			const source = get().nodes[sourceId];
@@ -464,9 +742,15 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 						parentId: source.parentId ?? null,
 						status: source.status,
 						tokenLogprobs: source.tokenLogprobs,
+						generation: source.generation,
+						toolCalls: source.toolCalls,
+						toolResult: source.toolResult,
 					},
 				};
-				return withDerivedTree(nodes);
+				return withDerivedTree(
+					nodes,
+					recordHistory(state, "Duplicate node", [newId]),
+				);
 			});
 			return newId;
 		},
@@ -486,6 +770,8 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 					content: updates.content ?? target.content,
 					reasoningContent: updates.reasoningContent ?? target.reasoningContent,
 					tokenLogprobs: updates.tokenLogprobs ?? target.tokenLogprobs,
+					// Hand-edited text no longer matches what the model produced.
+					generation: updates.content ? undefined : target.generation,
 					parentId: target.parentId ?? null,
 					createdAt: Date.now(),
 					status: "final",
@@ -499,6 +785,7 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 					}
 				}
 				return withDerivedTree(nodes, {
+					...recordHistory(state, "Edit message", [newId]),
 					activeTargetId:
 						state.activeTargetId === nodeId ? newId : state.activeTargetId,
 				});
@@ -530,16 +817,77 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 						? target.parentId ?? undefined
 						: state.activeTargetId;
 				return withDerivedTree(nodes, {
+					...recordHistory(state, "Delete node", [id]),
 					activeTargetId: nextActive,
 				});
 			}),
-		reset: () =>
+		undo: () =>
+			set((state) => {
+				const entry = state.past[state.past.length - 1];
+				if (!entry) {
+					return state;
+				}
+				openAppendGroups.clear();
+				return withDerivedTree(entry.nodes, {
+					activeTargetId: entry.activeTargetId,
+					past: state.past.slice(0, -1),
+					future: [
+						{
+							...entry,
+							nodes: state.nodes,
+							activeTargetId: state.activeTargetId,
+						},
+						...state.future,
+					],
+				});
+			}),
+		redo: () =>
+			set((state) => {
+				const [entry, ...future] = state.future;
+				if (!entry) {
+					return state;
+				}
+				openAppendGroups.clear();
+				return withDerivedTree(entry.nodes, {
+					activeTargetId: entry.activeTargetId,
+					past: [
+						...state.past,
+						{
+							...entry,
+							nodes: state.nodes,
+							activeTargetId: state.activeTargetId,
+						},
+					],
+					future,
+				});
+			}),
+		goToHistoryEntry: (entryId) => {
+			// `null` rewinds past every recorded entry.
+			const { past, future, undo, redo } = get();
+			const pastIndex =
+				entryId === null ? -1 : past.findIndex((entry) => entry.id === entryId);
+			if (entryId === null || pastIndex !== -1) {
+				for (let step = past.length - 1; step > pastIndex; step -= 1) {
+					undo();
+				}
+				return;
+			}
+			const futureIndex = future.findIndex((entry) => entry.id === entryId);
+			for (let step = 0; step <= futureIndex; step += 1) {
+				redo();
+			}
+		},
+		reset: () => {
+			openAppendGroups.clear();
 			set({
 				nodes: {},
 				edges: {},
 				roots: [],
 				activeTargetId: undefined,
-			}),
+				past: [],
+				future: [],
+			});
+		},
 		exportSnapshot: () => {
 			const state = get();
 			const nodes = Object.fromEntries(
@@ -557,7 +905,7 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 				activeTargetId: state.activeTargetId,
 			} satisfies ConversationSnapshot;
 		},
-		importSnapshot: (snapshot) => {
+		importSnapshot: (snapshot, { fresh = false } = {}) => {
 			if (snapshot.version !== 2) {
 				throw new Error(`Unsupported snapshot version: ${snapshot.version}`);
 			}
@@ -577,14 +925,23 @@ export const useConversationTree = createWithEqualityFn<TreeState>(
 					status: node.status,
 					parentId,
 					tokenLogprobs: node.tokenLogprobs,
+					generation: node.generation,
+					toolCalls: node.toolCalls,
+					toolResult: node.toolResult,
+					starred: node.starred,
+					rank: node.rank,
 				} satisfies TreeNode;
 			}
-			set(
+			openAppendGroups.clear();
+			set((state) =>
 				withDerivedTree(nodes, {
 					activeTargetId:
 						snapshot.activeTargetId && nodes[snapshot.activeTargetId]
 							? snapshot.activeTargetId
 							: undefined,
+					...(fresh
+						? { past: [], future: [] }
+						: recordHistory(state, "Import conversation")),
 				}),
 			);
 		},
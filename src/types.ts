@@ -1,10 +1,21 @@
 import type { LanguageModel } from "ai";
+import type { Cassette, ReplayTiming } from "./ai/cassette";
 
 export type AppView = "chat" | "diagram" | "text";
 
+/** Asks the diagram to center a node; `requestId` repeats a focus on the same node. */
+export interface DiagramFocusRequest {
+	nodeId: string;
+	requestId: number;
+}
+
 export interface MessageMetadata {
 	uuid: string;
 	tokenLogprobs?: TokenLogprob[];
+	generation?: GenerationMetadata;
+	status?: "draft" | "streaming" | "final" | "error";
+	starred?: boolean;
+	rank?: number;
 }
 
 export type MessageContentPart =
@@ -17,9 +28,39 @@ export interface Message {
 	role: "system" | "user" | "assistant" | "tool";
 	content: MessageContent;
 	reasoning_content?: string;
+	tool_calls?: ToolCall[];
+	tool_result?: ToolResult;
 	_metadata: MessageMetadata;
 }
 
+/** A function call requested by an assistant reply. */
+export interface ToolCall {
+	toolCallId: string;
+	toolName: string;
+	input: unknown;
+}
+
+/**
+ * Identifies the call a `tool` node answers. The result itself is the node's
+ * text content, so it can be edited like any other message.
+ */
+export interface ToolResult {
+	toolCallId: string;
+	toolName: string;
+	isError?: boolean;
+}
+
+export interface ToolDefinition {
+	id: string;
+	name: string;
+	description: string;
+	/** JSON Schema for the arguments, kept as the text the user typed. */
+	parameters: string;
+	/** Body of an async function that receives `args` and returns the result. */
+	handler: string;
+	enabled: boolean;
+}
+
 export interface TokenLogprob {
 	token: string;
 	probability?: number;
@@ -37,9 +78,66 @@ export interface ModelInfo {
 	name?: string | null;
 	object?: string;
 	owned_by?: string;
+	/** Context window as reported by OpenRouter, Together and similar. */
+	context_length?: number;
+	/** Context window as reported by vLLM. */
+	max_model_len?: number;
+	/** Context window as reported by LM Studio. */
+	max_context_length?: number;
+}
+
+export interface GenerationSettings {
+	temperature?: number;
+	topP?: number;
+	topK?: number;
+	minP?: number;
+	presencePenalty?: number;
+	frequencyPenalty?: number;
+	maxOutputTokens?: number;
+	seed?: number;
+	stopSequences?: string[];
+	topLogprobs?: number;
 }
 
-export type ProviderKind = "openai-compatible" | "built-in" | "dummy";
+export type ProviderKind =
+	| "openai-compatible"
+	| "built-in"
+	| "dummy"
+	| "replay";
+
+export interface GenerationUsage {
+	inputTokens?: number;
+	outputTokens?: number;
+	reasoningTokens?: number;
+	totalTokens?: number;
+}
+
+export interface GenerationMetadata {
+	providerKind: ProviderKind;
+	modelId?: string;
+	settings: GenerationSettings;
+	finishReason?: string;
+	usage?: GenerationUsage;
+	startedAt: number;
+	firstTokenMs?: number;
+	durationMs?: number;
+}
+
+/** Failures the dummy provider injects to exercise error handling. */
+export interface DummyFaults {
+	/** HTTP status of an error raised before the first token. */
+	failBeforeStartStatus?: number;
+	/** Ends the stream with an error after this many deltas. */
+	failAfterTokens?: number;
+	/** Stops sending after this many deltas until the request is aborted. */
+	stallAfterTokens?: number;
+	/** Ends the reply early after this many deltas. */
+	truncateAfterTokens?: number;
+	/** Reported instead of the real finish reason. */
+	finishReason?: "length" | "content-filter" | "error" | "other" | "unknown";
+	/** Sends token logprobs that do not match the expected shape. */
+	malformedLogprobs?: boolean;
+}
 
 export interface ProviderEntry {
 	id: string;
@@ -49,9 +147,52 @@ export interface ProviderEntry {
 		baseURL?: string;
 		apiKey?: string;
 		tokensPerSecond?: number;
+		/** JSON steps for the dummy provider's `scripted` model. */
+		script?: string;
+		faults?: DummyFaults;
+		/** Cassette JSON played by a replay provider. */
+		cassette?: string;
+		replayTiming?: ReplayTiming;
 	};
 	models?: ModelInfo[];
 	activeModelId?: string | null;
+	generationSettings?: Record<string, GenerationSettings>;
+	/** Context windows entered by the user, keyed like `generationSettings`. */
+	contextLengths?: Record<string, number>;
+}
+
+export interface ComparisonTarget {
+	providerId: string;
+	modelId: string | null;
+}
+
+/** Retries for replies that fail with a transient error; 0 attempts is off. */
+export interface AutoRetrySettings {
+	maxAttempts: number;
+	/** Wait before the first retry; each further retry waits twice as long. */
+	initialDelayMs: number;
+}
+
+export type TruncationStrategy =
+	| "none"
+	| "drop-oldest"
+	| "sliding-window"
+	| "summarize";
+
+/** How a path that is too long for the model is cut down before sending. */
+export interface TruncationSettings {
+	strategy: TruncationStrategy;
+	/** Turns kept by the sliding window; a turn starts at a user message. */
+	windowTurns: number;
+}
+
+export interface ConversationEntry {
+	id: string;
+	title: string;
+	preview?: string;
+	createdAt: number;
+	updatedAt: number;
+	activeTargetId?: string;
 }
 
 export type BuiltInAvailability =
@@ -73,15 +214,31 @@ export type ChatProviderReady =
 			openAIProvider: OpenAIProviderAdapter;
 			baseURL: string;
 			apiKey: string;
+			generation: GenerationSettings;
+			contextLength?: number;
 	  }
 	| {
 			kind: "built-in";
 			getBuiltInChatModel: () => LanguageModel;
+			generation: GenerationSettings;
+			contextLength?: number;
 	  }
 	| {
 			kind: "dummy";
 			modelId: string;
 			tokensPerSecond: number;
+			script?: string;
+			faults?: DummyFaults;
+			generation: GenerationSettings;
+			contextLength?: number;
+	  }
+	| {
+			kind: "replay";
+			modelId: string;
+			cassette: Cassette;
+			/** Fixed replay speed; the recorded timing is kept when unset. */
+			tokensPerSecond?: number;
+			generation: GenerationSettings;
 	  };
 
 export type CompletionProviderReady = Extract<
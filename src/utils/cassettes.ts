@@ -0,0 +1,10 @@
+import type { Cassette } from "../ai/cassette";
+import { downloadFile, fileTimestamp } from "./download";
+
+export const exportCassetteToFile = (cassette: Cassette) => {
+	downloadFile(
+		`iaslate_cassette_${fileTimestamp(cassette.recordedAt)}.json`,
+		"application/json",
+		JSON.stringify(cassette, null, 2),
+	);
+};
@@ -28,7 +28,7 @@ export const deleteMessage = ({
 	defaultSystemPrompt,
 }: DeleteMessageOptions) => {
 	streamManager.abort(nodeId);
-	setIsGenerating(false);
+	setIsGenerating(streamManager.hasActive());
 	removeNodeFromTree(nodeId);
 	if (editingNodeId === nodeId) {
 		resetComposerState();
@@ -0,0 +1,426 @@
+import { v4 as uuidv4 } from "uuid";
+import type { NodeID, TreeNode } from "../tree/types";
+import {
+	type ChatImport,
+	type ImportedConversation,
+	describeError,
+	isRecord,
+	readJsonlConversations,
+} from "./chatImport";
+
+// Content types that hold app state rather than conversation text.
+const hiddenChatGPTContent = new Set([
+	"user_editable_context",
+	"model_editable_context",
+	"reasoning_recap",
+]);
+
+const chatGPTText = (content: Record<string, unknown>) => {
+	if (content.content_type === "code" && typeof content.text === "string") {
+		const language =
+			typeof content.language === "string" && content.language !== "unknown"
+				? content.language
+				: "";
+		return `\`\`\`${language}\n${content.text}\n\`\`\``;
+	}
+	if (typeof content.text === "string") {
+		return content.text;
+	}
+	if (!Array.isArray(content.parts)) {
+		return "";
+	}
+	// Uploaded files are only referenced by the export, so images become a
+	// placeholder.
+	return content.parts
+		.map((part) =>
+			typeof part === "string"
+				? part
+				: isRecord(part) && part.content_type === "image_asset_pointer"
+					? "[image]"
+					: "",
+		)
+		.filter(Boolean)
+		.join("\n\n");
+};
+
+const chatGPTThoughts = (content: Record<string, unknown>) =>
+	Array.isArray(content.thoughts)
+		? content.thoughts
+				.map((thought) =>
+					isRecord(thought) && typeof thought.content === "string"
+						? thought.content
+						: "",
+				)
+				.filter(Boolean)
+				.join("\n\n")
+		: "";
+
+const secondsToMs = (value: unknown) =>
+	typeof value === "number" && Number.isFinite(value)
+		? Math.round(value * 1000)
+		: undefined;
+
+interface ChatGPTVisit {
+	mappingId: string;
+	parentId: NodeID | null;
+	parentCreatedAt: number;
+	/** Reasoning from skipped `thoughts` messages, for the next reply. */
+	reasoning?: string;
+}
+
+/**
+ * Converts one conversation of a ChatGPT export. Its `mapping` is already a
+ * tree; entries without a visible message are skipped and their children
+ * attached to the nearest kept ancestor.
+ */
+const chatGPTConversationToNodes = (
+	conversation: unknown,
+): ImportedConversation => {
+	if (!isRecord(conversation) || !isRecord(conversation.mapping)) {
+		throw new Error("No mapping found");
+	}
+	const mapping = conversation.mapping;
+	const startedAt = secondsToMs(conversation.create_time) ?? Date.now();
+	const keptIds = new Map<string, NodeID | null>();
+	const nodes: TreeNode[] = [];
+	const nodesById = new Map<NodeID, TreeNode>();
+	const stack: ChatGPTVisit[] = Object.entries(mapping)
+		.filter(([, entry]) => {
+			const parent = isRecord(entry) ? entry.parent : undefined;
+			return typeof parent !== "string" || !mapping[parent];
+		})
+		.map(([mappingId]) => ({
+			mappingId,
+			parentId: null,
+			parentCreatedAt: startedAt,
+		}));
+
+	while (stack.length > 0) {
+		const visit = stack.pop() as ChatGPTVisit;
+		const entry = mapping[visit.mappingId];
+		if (!isRecord(entry) || keptIds.has(visit.mappingId)) {
+			continue;
+		}
+		const message = isRecord(entry.message) ? entry.message : undefined;
+		const content = isRecord(message?.content) ? message.content : undefined;
+		const author = isRecord(message?.author) ? message.author : undefined;
+		const metadata = isRecord(message?.metadata) ? message.metadata : {};
+		const role = author?.role;
+		const text = content ? chatGPTText(content).trim() : "";
+		const thoughts =
+			content?.content_type === "thoughts" ? chatGPTThoughts(content) : "";
+		const createdAt =
+			secondsToMs(message?.create_time) ?? visit.parentCreatedAt + 1;
+		const isVisible =
+			content !== undefined &&
+			!hiddenChatGPTContent.has(String(content.content_type)) &&
+			!metadata.is_visually_hidden_from_conversation &&
+			(role === "system" ||
+				role === "user" ||
+				role === "assistant" ||
+				role === "tool") &&
+			text.length > 0;
+
+		let node: TreeNode | undefined;
+		if (isVisible) {
+			const parent = visit.parentId ? nodesById.get(visit.parentId) : undefined;
+			const recipient =
+				typeof message?.recipient === "string" ? message.recipient : "all";
+			const call = parent?.toolCalls?.[0];
+			node = {
+				id: uuidv4(),
+				// Tool output that answers no recorded call reads as a reply.
+				role: role === "tool" && !call ? "assistant" : role,
+				content: text,
+				createdAt,
+				status: "final",
+				parentId: visit.parentId,
+			};
+			if (role === "assistant" && recipient !== "all") {
+				node.content = "";
+				node.toolCalls = [
+					{
+						toolCallId: uuidv4(),
+						toolName: recipient,
+						input: typeof content?.text === "string" ? content.text : text,
+					},
+				];
+			}
+			if (role === "tool" && call) {
+				node.toolResult = {
+					toolCallId: call.toolCallId,
+					toolName: call.toolName,
+				};
+			}
+			if (node.role === "assistant" && visit.reasoning) {
+				node.reasoningContent = visit.reasoning;
+			}
+			nodes.push(node);
+			nodesById.set(node.id, node);
+		}
+		keptIds.set(visit.mappingId, node ? node.id : visit.parentId);
+
+		const children = Array.isArray(entry.children) ? entry.children : [];
+		for (const childId of [...children].reverse()) {
+			if (typeof childId !== "string") {
+				continue;
+			}
+			stack.push({
+				mappingId: childId,
+				parentId: node ? node.id : visit.parentId,
+				parentCreatedAt: createdAt,
+				reasoning: node
+					? undefined
+					: [visit.reasoning, thoughts].filter(Boolean).join("\n\n") ||
+						undefined,
+			});
+		}
+	}
+
+	if (nodes.length === 0) {
+		throw new Error("No visible messages");
+	}
+	const currentNode =
+		typeof conversation.current_node === "string"
+			? keptIds.get(conversation.current_node)
+			: undefined;
+	return {
+		nodes,
+		title:
+			typeof conversation.title === "string" ? conversation.title : undefined,
+		activeNodeId: currentNode ?? undefined,
+	};
+};
+
+export const isChatGPTExport = (data: unknown) =>
+	isRecord(data)
+		? isRecord(data.mapping)
+		: Array.isArray(data) &&
+			data.some((item) => isRecord(item) && isRecord(item.mapping));
+
+/** Reads ChatGPT's `conversations.json`, or a single conversation from it. */
+export const readChatGPTExport = (data: unknown): ChatImport => {
+	const conversations: ImportedConversation[] = [];
+	const skipped: ChatImport["skipped"] = [];
+	(Array.isArray(data) ? data : [data]).forEach((conversation, index) => {
+		try {
+			conversations.push(chatGPTConversationToNodes(conversation));
+		} catch (error) {
+			skipped.push({ line: index + 1, reason: describeError(error) });
+		}
+	});
+	if (conversations.length === 0) {
+		throw new Error(
+			`No conversations could be read. ${skipped[0]?.reason ?? "The file is empty"}`,
+		);
+	}
+	return { format: "chatgpt", conversations, skipped };
+};
+
+const shareGPTRoles: Record<string, TreeNode["role"]> = {
+	system: "system",
+	human: "user",
+	user: "user",
+	gpt: "assistant",
+	assistant: "assistant",
+	model: "assistant",
+	chatgpt: "assistant",
+	bard: "assistant",
+	bing: "assistant",
+};
+
+export const isShareGPTRecord = (value: unknown) =>
+	isRecord(value) &&
+	Array.isArray(value.conversations) &&
+	value.conversations.every(
+		(turn) => isRecord(turn) && typeof turn.from === "string",
+	);
+
+/** A ShareGPT record as a linear path; a top-level `system` field leads it. */
+const shareGPTRecordToNodes = (
+	record: unknown,
+	startedAt: number,
+): ImportedConversation => {
+	if (!isShareGPTRecord(record)) {
+		throw new Error("No conversations field");
+	}
+	const { conversations, system } = record as {
+		conversations: Array<{ from: string; value?: unknown }>;
+		system?: unknown;
+	};
+	const turns = [
+		...(typeof system === "string" && system.trim()
+			? [{ from: "system", value: system }]
+			: []),
+		...conversations,
+	];
+	if (turns.length === 0) {
+		throw new Error("No messages found");
+	}
+	let parentId: NodeID | null = null;
+	const nodes = turns.map((turn, index) => {
+		const role = shareGPTRoles[turn.from.toLowerCase()];
+		if (!role) {
+			throw new Error(
+				`Turn ${index + 1} has unsupported sender "${turn.from}"`,
+			);
+		}
+		const node: TreeNode = {
+			id: uuidv4(),
+			role,
+			content: typeof turn.value === "string" ? turn.value : "",
+			createdAt: startedAt + index,
+			status: "final",
+			parentId,
+		};
+		parentId = node.id;
+		return node;
+	});
+	return { nodes };
+};
+
+/** Reads one ShareGPT record or a list of them. */
+export const readShareGPTJson = (data: unknown): ChatImport => {
+	const records = Array.isArray(data) ? data : [data];
+	const startedAt = Date.now();
+	const conversations: ImportedConversation[] = [];
+	const skipped: ChatImport["skipped"] = [];
+	records.forEach((record, index) => {
+		try {
+			conversations.push({
+				...shareGPTRecordToNodes(record, startedAt + index * 1000),
+				line: Array.isArray(data) ? index + 1 : undefined,
+			});
+		} catch (error) {
+			skipped.push({ line: index + 1, reason: describeError(error) });
+		}
+	});
+	if (conversations.length === 0) {
+		throw new Error(
+			`No conversations could be read. ${skipped[0]?.reason ?? "The file is empty"}`,
+		);
+	}
+	return { format: "sharegpt", conversations, skipped };
+};
+
+export const readShareGPTJsonl = (text: string): ChatImport =>
+	readJsonlConversations(text, "sharegpt", shareGPTRecordToNodes);
+
+export const isSillyTavernRecord = (value: unknown) =>
+	isRecord(value) &&
+	(typeof value.mes === "string" ||
+		typeof value.character_name === "string" ||
+		typeof value.user_name === "string");
+
+// SillyTavern writes dates like "June 5, 2024 3:14pm", which Date.parse only
+// reads with a space before the meridiem, and chat headers like
+// "2024-06-05@15h14m30s".
+const parseSendDate = (value: unknown) => {
+	if (typeof value === "number" && Number.isFinite(value)) {
+		return value;
+	}
+	if (typeof value !== "string") {
+		return undefined;
+	}
+	const stamp =
+		/^(\d{4})-(\d{1,2})-(\d{1,2})\s*@\s*(\d{1,2})h\s*(\d{1,2})m\s*(\d{1,2})s/.exec(
+			value,
+		);
+	if (stamp) {
+		const [year, month, day, hour, minute, second] = stamp
+			.slice(1)
+			.map(Number) as [number, number, number, number, number, number];
+		return new Date(year, month - 1, day, hour, minute, second).getTime();
+	}
+	const parsed = Date.parse(value.replace(/(\d)\s*(am|pm)$/i, "$1 $2"));
+	return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Reads a SillyTavern chat: a header line followed by one message per line.
+ * Swipes become sibling replies, and the chat continues from the chosen one.
+ */
+export const readSillyTavernJsonl = (text: string): ChatImport => {
+	const nodes: TreeNode[] = [];
+	const skipped: ChatImport["skipped"] = [];
+	let title: string | undefined;
+	let parentId: NodeID | null = null;
+	let previousAt = Date.now();
+	text.split(/\r?\n/).forEach((raw, index) => {
+		const line = index + 1;
+		if (!raw.trim()) {
+			return;
+		}
+		try {
+			const record: unknown = JSON.parse(raw);
+			if (!isRecord(record)) {
+				throw new Error("Not an object");
+			}
+			if (typeof record.mes !== "string") {
+				if (typeof record.character_name === "string") {
+					title = `Chat with ${record.character_name}`;
+					previousAt = parseSendDate(record.create_date) ?? previousAt;
+					return;
+				}
+				throw new Error("No mes field");
+			}
+			const role: TreeNode["role"] = record.is_system
+				? "system"
+				: record.is_user
+					? "user"
+					: "assistant";
+			const createdAt = Math.max(
+				parseSendDate(record.send_date) ?? previousAt + 1,
+				previousAt + 1,
+			);
+			const extra = isRecord(record.extra) ? record.extra : {};
+			const swipes =
+				role === "assistant" &&
+				Array.isArray(record.swipes) &&
+				record.swipes.length > 1
+					? record.swipes.map((swipe) =>
+							typeof swipe === "string" ? swipe : "",
+						)
+					: [record.mes];
+			const chosen =
+				typeof record.swipe_id === "number" &&
+				swipes[record.swipe_id] !== undefined
+					? record.swipe_id
+					: Math.max(0, swipes.indexOf(record.mes));
+			let chosenId: NodeID | undefined;
+			swipes.forEach((swipe, swipeIndex) => {
+				const node: TreeNode = {
+					id: uuidv4(),
+					role,
+					content: swipeIndex === chosen ? (record.mes as string) : swipe,
+					createdAt: createdAt + swipeIndex,
+					status: "final",
+					parentId,
+				};
+				if (swipeIndex === chosen) {
+					chosenId = node.id;
+					if (typeof extra.reasoning === "string" && extra.reasoning) {
+						node.reasoningContent = extra.reasoning;
+					}
+				}
+				nodes.push(node);
+			});
+			parentId = chosenId ?? parentId;
+			previousAt = createdAt + swipes.length;
+		} catch (error) {
+			skipped.push({ line, reason: describeError(error) });
+		}
+	});
+	if (nodes.length === 0) {
+		throw new Error(
+			skipped[0]
+				? `No messages could be read. Line ${skipped[0].line}: ${skipped[0].reason}`
+				: "The chat has no messages",
+		);
+	}
+	return {
+		format: "sillytavern",
+		conversations: [{ nodes, title, activeNodeId: parentId ?? undefined }],
+		skipped,
+	};
+};
@@ -0,0 +1,101 @@
+import type { ConversationSnapshot, NodeID, TreeNode } from "../tree/types";
+
+export type ChatImportFormat =
+	| "openai-chat"
+	| "openai-jsonl"
+	| "chatgpt"
+	| "sillytavern"
+	| "sharegpt";
+
+/** A conversation read from a file, before it is committed to the tree. */
+export interface ImportedConversation {
+	nodes: TreeNode[];
+	title?: string;
+	/** Where the conversation was left off; its last node when unset. */
+	activeNodeId?: NodeID;
+	/** 1-based line of a JSONL file the conversation came from. */
+	line?: number;
+}
+
+export interface SkippedLine {
+	line: number;
+	reason: string;
+}
+
+export interface ChatImport {
+	format: ChatImportFormat;
+	conversations: ImportedConversation[];
+	skipped: SkippedLine[];
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const describeError = (error: unknown) =>
+	error instanceof Error ? error.message : String(error);
+
+/** The first line of a JSONL file that parses, if any. */
+export const readFirstJsonlRecord = (text: string): unknown => {
+	const firstLine = text.split(/\r?\n/).find((line) => line.trim());
+	try {
+		return firstLine ? JSON.parse(firstLine) : undefined;
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * Reads one conversation per line. Lines that cannot be read are skipped and
+ * reported instead of failing the file.
+ */
+export const readJsonlConversations = (
+	text: string,
+	format: ChatImportFormat,
+	toNodes: (record: unknown, startedAt: number) => ImportedConversation,
+): ChatImport => {
+	const conversations: ImportedConversation[] = [];
+	const skipped: SkippedLine[] = [];
+	const startedAt = Date.now();
+	text.split(/\r?\n/).forEach((raw, index) => {
+		const line = index + 1;
+		if (!raw.trim()) {
+			return;
+		}
+		try {
+			conversations.push({
+				...toNodes(JSON.parse(raw), startedAt + index * 1000),
+				line,
+			});
+		} catch (error) {
+			skipped.push({ line, reason: describeError(error) });
+		}
+	});
+	if (conversations.length === 0) {
+		throw new Error(
+			skipped[0]
+				? `No conversations could be read. Line ${skipped[0].line}: ${skipped[0].reason}`
+				: "The file is empty",
+		);
+	}
+	return { format, conversations, skipped };
+};
+
+/** One root per conversation; the first conversation's position is active. */
+export const conversationsToSnapshot = (
+	conversations: ImportedConversation[],
+): ConversationSnapshot => {
+	const nodes: Record<NodeID, TreeNode> = {};
+	for (const conversation of conversations) {
+		for (const node of conversation.nodes) {
+			nodes[node.id] = node;
+		}
+	}
+	const first = conversations[0];
+	return {
+		version: 2,
+		exportedAt: new Date().toISOString(),
+		tree: { nodes },
+		activeTargetId:
+			first?.activeNodeId ?? first?.nodes[first.nodes.length - 1]?.id,
+	};
+};
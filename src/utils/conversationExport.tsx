@@ -0,0 +1,372 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import Markdown from "react-markdown";
+import { summarizeGeneration } from "../ai/generationMetadata";
+import type { HeatmapTheme } from "../state/useSettingsStore";
+import type { NodeID, TreeNode } from "../tree/types";
+import { toMessage } from "../tree/useConversationTree";
+import type { Message, MessageContentPart, TokenLogprob } from "../types";
+import { downloadFile, fileTimestamp } from "./download";
+import { heatmapColor, tokenProbability } from "./heatmap";
+
+export type ExportScope = "active-path" | "tree";
+export type ExportFormat = "markdown" | "html" | "sft-jsonl" | "dpo-jsonl";
+
+/** A run of messages without forks, followed by the branches it splits into. */
+export interface ExportThread {
+	messages: Message[];
+	branches: ExportThread[];
+}
+
+export interface ExportOptions {
+	title: string;
+	/** Colors tokens by probability in HTML exports; off when unset. */
+	heatmapTheme?: HeatmapTheme;
+}
+
+const roleLabels: Record<Message["role"], string> = {
+	system: "System",
+	user: "User",
+	assistant: "Assistant",
+	tool: "Tool",
+};
+
+const compareByCreatedAt = (a: TreeNode, b: TreeNode) =>
+	a.createdAt - b.createdAt || a.id.localeCompare(b.id);
+
+export const buildPathThread = (messages: Message[]): ExportThread => ({
+	messages,
+	branches: [],
+});
+
+/** Every branch of the tree; separate roots become top-level branches. */
+export const buildTreeThread = (
+	nodes: Record<NodeID, TreeNode>,
+): ExportThread => {
+	const childrenIndex = new Map<NodeID, TreeNode[]>();
+	const roots: TreeNode[] = [];
+	for (const node of Object.values(nodes)) {
+		if (!node.parentId || !nodes[node.parentId]) {
+			roots.push(node);
+			continue;
+		}
+		const list = childrenIndex.get(node.parentId) ?? [];
+		list.push(node);
+		childrenIndex.set(node.parentId, list);
+	}
+	const buildThread = (start: TreeNode): ExportThread => {
+		const messages: Message[] = [];
+		let current: TreeNode | undefined = start;
+		let children: TreeNode[] = [];
+		while (current) {
+			messages.push(toMessage(current));
+			children = [...(childrenIndex.get(current.id) ?? [])].sort(
+				compareByCreatedAt,
+			);
+			current = children.length === 1 ? children[0] : undefined;
+		}
+		return {
+			messages,
+			branches: children.length > 1 ? children.map(buildThread) : [],
+		};
+	};
+	const threads = roots.sort(compareByCreatedAt).map(buildThread);
+	return threads.length === 1 && threads[0]
+		? threads[0]
+		: { messages: [], branches: threads };
+};
+
+const messageLabel = (message: Message) => {
+	const parts = [roleLabels[message.role]];
+	if (message.tool_result) {
+		parts.push(
+			`${message.tool_result.toolName}${message.tool_result.isError ? " (failed)" : ""}`,
+		);
+	}
+	if (message._metadata.generation) {
+		parts.push(summarizeGeneration(message._metadata.generation));
+	}
+	return parts.join(" · ");
+};
+
+const contentParts = (message: Message): MessageContentPart[] =>
+	typeof message.content === "string"
+		? [{ type: "text", text: message.content }]
+		: message.content;
+
+const formatCallInput = (input: unknown) =>
+	JSON.stringify(input, null, 2) ?? "";
+
+const formatExportDate = () =>
+	new Date().toLocaleString(undefined, {
+		dateStyle: "medium",
+		timeStyle: "short",
+	});
+
+// A fence one backtick longer than any run inside, so code blocks survive.
+const fence = (text: string, language = "") => {
+	const longestRun = Math.max(
+		2,
+		...(text.match(/`+/g) ?? []).map((run) => run.length),
+	);
+	const marker = "`".repeat(longestRun + 1);
+	return `${marker}${language}\n${text}\n${marker}`;
+};
+
+const messageToMarkdown = (message: Message) => {
+	const blocks = [`**${messageLabel(message)}**`];
+	if (message.reasoning_content?.trim()) {
+		blocks.push(
+			`<details>\n<summary>Reasoning</summary>\n\n${message.reasoning_content.trim()}\n\n</details>`,
+		);
+	}
+	for (const part of contentParts(message)) {
+		if (part.type === "image") {
+			blocks.push(`![Attached image](${part.image})`);
+		} else if (part.text.trim()) {
+			blocks.push(message.tool_result ? fence(part.text) : part.text.trim());
+		}
+	}
+	for (const call of message.tool_calls ?? []) {
+		blocks.push(
+			`Calls \`${call.toolName}\`:`,
+			fence(formatCallInput(call.input), "json"),
+		);
+	}
+	return blocks.join("\n\n");
+};
+
+const threadToMarkdown = (thread: ExportThread, path: number[]): string[] => [
+	...thread.messages.map(messageToMarkdown),
+	...thread.branches.flatMap((branch, index) => {
+		const branchPath = [...path, index + 1];
+		const heading = "#".repeat(Math.min(6, branchPath.length + 1));
+		return [
+			`${heading} Branch ${branchPath.join(".")}`,
+			...threadToMarkdown(branch, branchPath),
+		];
+	}),
+];
+
+export const renderMarkdownExport = (
+	thread: ExportThread,
+	{ title }: ExportOptions,
+) =>
+	`${[
+		`# ${title}`,
+		`_Exported from iaslate on ${formatExportDate()}_`,
+		...threadToMarkdown(thread, []),
+	].join("\n\n")}\n`;
+
+const TokenText = ({
+	tokens,
+	heatmapTheme,
+}: {
+	tokens: TokenLogprob[];
+	heatmapTheme: HeatmapTheme;
+}) => (
+	<p className="tokens">
+		{tokens.map((token, index) => {
+			const probability = tokenProbability(token);
+			return (
+				<span
+					key={`${token.token}-${index}`}
+					title={
+						probability === undefined
+							? undefined
+							: `${(probability * 100).toFixed(1)}%`
+					}
+					style={{
+						backgroundColor:
+							probability === undefined
+								? undefined
+								: heatmapColor(probability, heatmapTheme),
+					}}
+				>
+					{token.token}
+				</span>
+			);
+		})}
+	</p>
+);
+
+const MessageView = ({
+	message,
+	heatmapTheme,
+}: {
+	message: Message;
+	heatmapTheme?: HeatmapTheme;
+}) => {
+	const tokens = message._metadata.tokenLogprobs ?? [];
+	const contentTokens = tokens.filter((token) => token.segment !== "reasoning");
+	const reasoningTokens = tokens.filter(
+		(token) => token.segment === "reasoning",
+	);
+	const reasoning = message.reasoning_content?.trim();
+	return (
+		<article className={`message ${message.role}`}>
+			<header>{messageLabel(message)}</header>
+			{reasoning && (
+				<details className="reasoning">
+					<summary>Reasoning</summary>
+					{heatmapTheme && reasoningTokens.length > 0 ? (
+						<TokenText tokens={reasoningTokens} heatmapTheme={heatmapTheme} />
+					) : (
+						<Markdown remarkPlugins={[]}>{reasoning}</Markdown>
+					)}
+				</details>
+			)}
+			{heatmapTheme && contentTokens.length > 0 && !message.tool_result ? (
+				<TokenText tokens={contentTokens} heatmapTheme={heatmapTheme} />
+			) : (
+				contentParts(message).map((part, index) =>
+					part.type === "image" ? (
+						<img
+							key={`${message._metadata.uuid}-image-${index}`}
+							src={part.image}
+							alt="Attached"
+						/>
+					) : message.tool_result ? (
+						<pre key={`${message._metadata.uuid}-text-${index}`}>
+							{part.text}
+						</pre>
+					) : (
+						<Markdown
+							key={`${message._metadata.uuid}-text-${index}`}
+							remarkPlugins={[]}
+						>
+							{part.text}
+						</Markdown>
+					),
+				)
+			)}
+			{(message.tool_calls ?? []).map((call) => (
+				<div key={call.toolCallId} className="tool-call">
+					<div>
+						Calls <code>{call.toolName}</code>
+					</div>
+					<pre>{formatCallInput(call.input)}</pre>
+				</div>
+			))}
+		</article>
+	);
+};
+
+const ThreadView = ({
+	thread,
+	path,
+	heatmapTheme,
+}: {
+	thread: ExportThread;
+	path: number[];
+	heatmapTheme?: HeatmapTheme;
+}) => (
+	<>
+		{thread.messages.map((message) => (
+			<MessageView
+				key={message._metadata.uuid}
+				message={message}
+				heatmapTheme={heatmapTheme}
+			/>
+		))}
+		{thread.branches.map((branch, index) => {
+			const branchPath = [...path, index + 1];
+			return (
+				<section key={branchPath.join(".")} className="branch">
+					<h2>Branch {branchPath.join(".")}</h2>
+					<ThreadView
+						thread={branch}
+						path={branchPath}
+						heatmapTheme={heatmapTheme}
+					/>
+				</section>
+			);
+		})}
+	</>
+);
+
+const exportStyles = `
+body { margin: 0; background: #f8fafc; color: #0f172a; font: 15px/1.6 system-ui, sans-serif; }
+main { max-width: 760px; margin: 0 auto; padding: 32px 16px; }
+h1 { font-size: 1.5rem; margin: 0; }
+.meta { color: #64748b; font-size: 0.85rem; margin: 4px 0 24px; }
+.message { background: #fff; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px 16px; margin-bottom: 12px; }
+.message.user { background: #f1f5f9; }
+.message.system, .message.tool { color: #475569; font-size: 0.9rem; }
+.message header { font-size: 0.75rem; font-weight: 600; color: #64748b; margin-bottom: 4px; }
+.message img { max-width: 100%; max-height: 320px; border-radius: 4px; border: 1px solid #e2e8f0; }
+.reasoning { color: #64748b; font-size: 0.9rem; margin-bottom: 8px; }
+.reasoning summary { cursor: pointer; }
+.tokens { white-space: pre-wrap; }
+.tokens span { border-radius: 2px; }
+.tool-call { font-size: 0.85rem; color: #475569; }
+pre { background: #f1f5f9; border-radius: 4px; padding: 8px; overflow-x: auto; white-space: pre-wrap; }
+code { font-family: ui-monospace, monospace; font-size: 0.9em; }
+.branch { border-left: 3px solid #cbd5e1; padding-left: 12px; margin: 16px 0; }
+.branch h2 { font-size: 0.9rem; color: #475569; margin: 0 0 8px; }
+`;
+
+const escapeHtml = (text: string) =>
+	text
+		.replaceAll("&", "&amp;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;")
+		.replaceAll('"', "&quot;");
+
+/** A standalone page: styles are inlined and images stay data URLs. */
+export const renderHtmlExport = (
+	thread: ExportThread,
+	{ title, heatmapTheme }: ExportOptions,
+) => {
+	const body = renderToStaticMarkup(
+		<main>
+			<h1>{title}</h1>
+			<p className="meta">Exported from iaslate on {formatExportDate()}</p>
+			<ThreadView thread={thread} path={[]} heatmapTheme={heatmapTheme} />
+		</main>,
+	);
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${exportStyles}</style>
+</head>
+<body>${body}</body>
+</html>
+`;
+};
+
+const exportFileTypes: Record<
+	ExportFormat,
+	{ name: string; extension: string; mimeType: string }
+> = {
+	markdown: {
+		name: "conversation",
+		extension: "md",
+		mimeType: "text/markdown",
+	},
+	html: { name: "conversation", extension: "html", mimeType: "text/html" },
+	"sft-jsonl": {
+		name: "sft",
+		extension: "jsonl",
+		mimeType: "application/jsonl",
+	},
+	"dpo-jsonl": {
+		name: "dpo",
+		extension: "jsonl",
+		mimeType: "application/jsonl",
+	},
+};
+
+export const exportConversationToFile = (
+	contents: string,
+	format: ExportFormat,
+) => {
+	const { name, extension, mimeType } = exportFileTypes[format];
+	downloadFile(
+		`iaslate_${name}_${fileTimestamp()}.${extension}`,
+		mimeType,
+		contents,
+	);
+};
@@ -0,0 +1,163 @@
+import type { NodeID, TreeNode } from "../tree/types";
+import { toMessage } from "../tree/useConversationTree";
+import type { Message } from "../types";
+
+/** A message in the chat-completions format fine-tuning APIs expect. */
+export interface OpenAIChatMessage {
+	role: Message["role"];
+	content:
+		| string
+		| null
+		| Array<
+				| { type: "text"; text: string }
+				| { type: "image_url"; image_url: { url: string } }
+		  >;
+	tool_calls?: Array<{
+		id: string;
+		type: "function";
+		function: { name: string; arguments: string };
+	}>;
+	tool_call_id?: string;
+}
+
+export interface SftRecord {
+	messages: OpenAIChatMessage[];
+}
+
+export interface PreferenceRecord {
+	prompt: OpenAIChatMessage[];
+	chosen: OpenAIChatMessage[];
+	rejected: OpenAIChatMessage[];
+}
+
+export interface SftOptions {
+	/** Only paths ending at starred messages instead of every leaf. */
+	starredOnly?: boolean;
+}
+
+export const toOpenAIMessage = (message: Message): OpenAIChatMessage => {
+	const toolCalls = message.tool_calls ?? [];
+	const content =
+		typeof message.content === "string"
+			? message.content
+			: message.content.map((part) =>
+					part.type === "text"
+						? { type: "text" as const, text: part.text }
+						: { type: "image_url" as const, image_url: { url: part.image } },
+				);
+	return {
+		role: message.role,
+		content: toolCalls.length > 0 && content === "" ? null : content,
+		...(toolCalls.length > 0
+			? {
+					tool_calls: toolCalls.map((call) => ({
+						id: call.toolCallId,
+						type: "function" as const,
+						function: {
+							name: call.toolName,
+							arguments: JSON.stringify(call.input ?? {}),
+						},
+					})),
+				}
+			: {}),
+		...(message.tool_result
+			? { tool_call_id: message.tool_result.toolCallId }
+			: {}),
+	};
+};
+
+/**
+ * Cuts a path after its last assistant reply. Paths without one, or with a
+ * reply that failed or is still streaming, make no usable example.
+ */
+const toTrainingPath = (path: Message[]) => {
+	const lastReply = path.findLastIndex(
+		(message) => message.role === "assistant",
+	);
+	if (lastReply === -1) {
+		return undefined;
+	}
+	const trimmed = path.slice(0, lastReply + 1);
+	const isUsable = trimmed.every(
+		(message) =>
+			message._metadata.status !== "error" &&
+			message._metadata.status !== "streaming",
+	);
+	return isUsable ? trimmed : undefined;
+};
+
+/** One record per root-to-leaf path, or per starred path. */
+export const buildSftRecords = (
+	nodes: Record<NodeID, TreeNode>,
+	compilePathTo: (target: NodeID) => Message[],
+	{ starredOnly = false }: SftOptions = {},
+): SftRecord[] => {
+	const parentIds = new Set(Object.values(nodes).map((node) => node.parentId));
+	const targets = Object.values(nodes)
+		.filter((node) => (starredOnly ? node.starred : !parentIds.has(node.id)))
+		.sort((a, b) => a.createdAt - b.createdAt);
+	const seen = new Set<string>();
+	const records: SftRecord[] = [];
+	for (const target of targets) {
+		const path = toTrainingPath(compilePathTo(target.id));
+		const endId = path?.[path.length - 1]?._metadata.uuid;
+		// A starred user message and its starred reply yield the same example.
+		if (!path || !endId || seen.has(endId)) {
+			continue;
+		}
+		seen.add(endId);
+		records.push({ messages: path.map(toOpenAIMessage) });
+	}
+	return records;
+};
+
+/**
+ * Pairs every two ranked sibling replies with different ranks; the better
+ * ranked one is chosen. Unranked siblings are left out.
+ */
+export const buildPreferenceRecords = (
+	nodes: Record<NodeID, TreeNode>,
+	compilePathTo: (target: NodeID) => Message[],
+): PreferenceRecord[] => {
+	const rankedByParent = new Map<NodeID, TreeNode[]>();
+	for (const node of Object.values(nodes)) {
+		if (
+			node.role !== "assistant" ||
+			node.rank === undefined ||
+			!node.parentId ||
+			node.status === "error"
+		) {
+			continue;
+		}
+		const list = rankedByParent.get(node.parentId) ?? [];
+		list.push(node);
+		rankedByParent.set(node.parentId, list);
+	}
+	const records: PreferenceRecord[] = [];
+	for (const [parentId, siblings] of rankedByParent) {
+		if (siblings.length < 2) {
+			continue;
+		}
+		const prompt = compilePathTo(parentId).map(toOpenAIMessage);
+		const ranked = [...siblings].sort(
+			(a, b) => (a.rank ?? 0) - (b.rank ?? 0) || a.createdAt - b.createdAt,
+		);
+		const replyOf = (node: TreeNode) => [toOpenAIMessage(toMessage(node))];
+		ranked.forEach((better, index) => {
+			for (const worse of ranked.slice(index + 1)) {
+				if (worse.rank === better.rank) {
+					continue;
+				}
+				records.push({
+					prompt,
+					chosen: replyOf(better),
+					rejected: replyOf(worse),
+				});
+			}
+		});
+	}
+	return records;
+};
+
+export const toJsonl = (records: unknown[]) =>
+	records.map((record) => `${JSON.stringify(record)}\n`).join("");
@@ -0,0 +1,14 @@
+/** Saves `contents` as a file through a temporary download link. */
+export const downloadFile = (name: string, type: string, contents: string) => {
+	const blob = new Blob([contents], { type });
+	const url = URL.createObjectURL(blob);
+	const anchor = document.createElement("a");
+	anchor.href = url;
+	anchor.download = name;
+	anchor.click();
+	URL.revokeObjectURL(url);
+};
+
+/** An ISO timestamp with the colons file systems reject replaced. */
+export const fileTimestamp = (iso = new Date().toISOString()) =>
+	iso.replace(/[:]/g, "-");
@@ -0,0 +1,36 @@
+import type { HeatmapTheme } from "../state/useSettingsStore";
+import type { TokenLogprob } from "../types";
+
+/** The sampled token's probability, falling back to its own alternative. */
+export const tokenProbability = (token: TokenLogprob) =>
+	token.probability ??
+	token.alternatives.find((alt) => alt.token === token.token)?.probability ??
+	undefined;
+
+export const heatmapColor = (
+	probability: number,
+	theme: HeatmapTheme,
+): string | undefined => {
+	if (theme === "traffic-light") {
+		if (probability > 0.9) {
+			// No background for high probability
+			return undefined;
+		}
+		if (probability > 0.5) {
+			// Yellow/Orange for medium probability
+			// Calculate opacity based on probability: 0.9 -> 0.1, 0.5 -> 0.4
+			const opacity = 0.1 + ((0.9 - probability) / 0.4) * 0.3;
+			return `rgba(255, 165, 0, ${opacity})`;
+		}
+		// Red for low probability
+		// Calculate opacity based on probability: 0.5 -> 0.2, 0.0 -> 0.5
+		const opacity = 0.2 + ((0.5 - probability) / 0.5) * 0.3;
+		return `rgba(255, 0, 0, ${opacity})`;
+	}
+	// Monochrome themes: opacity inversely proportional to probability,
+	// capped at 0.5 for readability
+	const opacity = Math.min(0.5, (1 - probability) * 0.6);
+	return theme === "monochrome-red"
+		? `rgba(255, 0, 0, ${opacity})`
+		: `rgba(0, 0, 255, ${opacity})`;
+};
@@ -0,0 +1,185 @@
+import { v4 as uuidv4 } from "uuid";
+import type { NodeID, TreeNode } from "../tree/types";
+import type { MessageContentPart, ToolCall } from "../types";
+import {
+	type ChatImport,
+	isRecord,
+	readJsonlConversations,
+} from "./chatImport";
+
+const dataUrlMimeType = (url: string) => /^data:([^;,]+)/.exec(url)?.[1];
+
+const toContent = (
+	content: unknown,
+	position: string,
+): string | MessageContentPart[] => {
+	if (content === null || content === undefined) {
+		return "";
+	}
+	if (typeof content === "string") {
+		return content;
+	}
+	if (!Array.isArray(content)) {
+		throw new Error(`${position} has content that is not text or parts`);
+	}
+	const parts = content.map((part, index): MessageContentPart => {
+		if (!isRecord(part)) {
+			throw new Error(`${position}, part ${index + 1} is not an object`);
+		}
+		if (
+			(part.type === "text" || part.type === "input_text") &&
+			typeof part.text === "string"
+		) {
+			return { type: "text", text: part.text };
+		}
+		if (part.type === "image_url") {
+			const url = isRecord(part.image_url)
+				? part.image_url.url
+				: part.image_url;
+			if (typeof url === "string") {
+				return { type: "image", image: url, mimeType: dataUrlMimeType(url) };
+			}
+		}
+		throw new Error(
+			`${position}, part ${index + 1} has unsupported type "${String(part.type)}"`,
+		);
+	});
+	// Plain text reads better in the editor than a single text part.
+	return parts.length === 1 && parts[0]?.type === "text"
+		? parts[0].text
+		: parts;
+};
+
+const toToolCalls = (value: unknown, position: string): ToolCall[] => {
+	if (!Array.isArray(value)) {
+		throw new Error(`${position} has tool_calls that are not a list`);
+	}
+	return value.map((call, index) => {
+		const fn = isRecord(call) ? call.function : undefined;
+		if (!isRecord(call) || !isRecord(fn) || typeof fn.name !== "string") {
+			throw new Error(`${position}, tool call ${index + 1} has no function`);
+		}
+		let input: unknown = fn.arguments ?? {};
+		if (typeof input === "string") {
+			try {
+				input = JSON.parse(input || "{}");
+			} catch {
+				// Keep arguments that are not valid JSON as the raw text.
+			}
+		}
+		return {
+			toolCallId: typeof call.id === "string" ? call.id : uuidv4(),
+			toolName: fn.name,
+			input,
+		};
+	});
+};
+
+/**
+ * Turns a chat-completions `messages` list into a linear path of tree nodes,
+ * oldest first. Throws on the first message that cannot be read.
+ */
+export const messagesToNodes = (
+	messages: unknown,
+	startedAt = Date.now(),
+): TreeNode[] => {
+	if (!Array.isArray(messages) || messages.length === 0) {
+		throw new Error("No messages found");
+	}
+	const toolNames = new Map<string, string>();
+	const nodes: TreeNode[] = [];
+	let parentId: NodeID | null = null;
+	messages.forEach((message, index) => {
+		const position = `Message ${index + 1}`;
+		if (!isRecord(message)) {
+			throw new Error(`${position} is not an object`);
+		}
+		const role =
+			message.role === "developer" ? "system" : (message.role as string);
+		if (
+			role !== "system" &&
+			role !== "user" &&
+			role !== "assistant" &&
+			role !== "tool"
+		) {
+			throw new Error(`${position} has unsupported role "${String(role)}"`);
+		}
+		const node: TreeNode = {
+			id: uuidv4(),
+			role,
+			content: toContent(message.content, position),
+			createdAt: startedAt + index,
+			status: "final",
+			parentId,
+		};
+		if (role === "assistant") {
+			if (typeof message.reasoning_content === "string") {
+				node.reasoningContent = message.reasoning_content;
+			}
+			if (message.tool_calls !== undefined && message.tool_calls !== null) {
+				node.toolCalls = toToolCalls(message.tool_calls, position);
+				for (const call of node.toolCalls) {
+					toolNames.set(call.toolCallId, call.toolName);
+				}
+			}
+		}
+		if (role === "tool") {
+			const toolCallId =
+				typeof message.tool_call_id === "string" ? message.tool_call_id : "";
+			node.toolResult = {
+				toolCallId,
+				toolName:
+					toolNames.get(toolCallId) ??
+					(typeof message.name === "string" ? message.name : "tool"),
+			};
+		}
+		nodes.push(node);
+		parentId = node.id;
+	});
+	return nodes;
+};
+
+const hasMessages = (value: unknown): value is { messages: unknown } =>
+	isRecord(value) && Array.isArray(value.messages);
+
+const looksLikeMessageList = (value: unknown) =>
+	Array.isArray(value) &&
+	value.length > 0 &&
+	value.every((item) => isRecord(item) && typeof item.role === "string");
+
+/**
+ * Reads a parsed JSON document as a chat-completions request body, a bare
+ * `messages` list or a list of `{ messages }` records. Returns null for
+ * anything else.
+ */
+export const readOpenAIChatJson = (data: unknown): ChatImport | null => {
+	if (hasMessages(data) || looksLikeMessageList(data)) {
+		const messages = hasMessages(data) ? data.messages : data;
+		return {
+			format: "openai-chat",
+			conversations: [{ nodes: messagesToNodes(messages) }],
+			skipped: [],
+		};
+	}
+	if (Array.isArray(data) && data.length > 0 && data.every(hasMessages)) {
+		const startedAt = Date.now();
+		return {
+			format: "openai-jsonl",
+			conversations: data.map((record, index) => ({
+				nodes: messagesToNodes(record.messages, startedAt + index * 1000),
+				line: index + 1,
+			})),
+			skipped: [],
+		};
+	}
+	return null;
+};
+
+/** Reads a fine-tuning dataset with one `{ messages }` record per line. */
+export const readOpenAIChatJsonl = (text: string): ChatImport =>
+	readJsonlConversations(text, "openai-jsonl", (record, startedAt) => {
+		if (!hasMessages(record)) {
+			throw new Error("No messages field");
+		}
+		return { nodes: messagesToNodes(record.messages, startedAt) };
+	});
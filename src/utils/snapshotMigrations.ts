@@ -0,0 +1,56 @@
+import { isRecord } from "./chatImport";
+import { type SnapshotIssue, describeValue } from "./snapshotValidation";
+
+/** The snapshot version this build writes and validates. */
+export const CURRENT_SNAPSHOT_VERSION = 2;
+
+type SnapshotData = Record<string, unknown>;
+
+interface SnapshotMigration {
+	/** The version this step upgrades from, to `from + 1`. */
+	from: number;
+	label: string;
+	migrate: (data: SnapshotData, issues: SnapshotIssue[]) => SnapshotData;
+}
+
+// One step per format change; a step upgrades exactly one version so old
+// files pass through every later step on their way to the current version.
+// Version 2 is the first versioned format, so there are no steps yet.
+const migrations: SnapshotMigration[] = [];
+
+/**
+ * Upgrades parsed snapshot JSON to the current version, one step at a time.
+ * Returns the upgraded data along with the labels of the steps it went
+ * through; anything a step could not carry over is added to `issues`.
+ */
+export const migrateSnapshot = (data: unknown, issues: SnapshotIssue[]) => {
+	if (!isRecord(data)) {
+		throw new Error(`Expected a snapshot object, got ${describeValue(data)}`);
+	}
+	const sourceVersion = data.version;
+	if (typeof sourceVersion !== "number" || !Number.isInteger(sourceVersion)) {
+		throw new Error(
+			`Snapshot field "version": expected a whole number, got ${describeValue(sourceVersion)}`,
+		);
+	}
+	if (sourceVersion > CURRENT_SNAPSHOT_VERSION) {
+		throw new Error(
+			`Snapshot version ${sourceVersion} was written by a newer iaslate; this one reads up to version ${CURRENT_SNAPSHOT_VERSION}`,
+		);
+	}
+	const applied: string[] = [];
+	let migrated = data;
+	for (
+		let version = sourceVersion;
+		version < CURRENT_SNAPSHOT_VERSION;
+		version += 1
+	) {
+		const step = migrations.find((migration) => migration.from === version);
+		if (!step) {
+			throw new Error(`Snapshot version ${version} is no longer supported`);
+		}
+		migrated = { ...step.migrate(migrated, issues), version: version + 1 };
+		applied.push(step.label);
+	}
+	return { data: migrated, sourceVersion, migrations: applied };
+};
@@ -0,0 +1,473 @@
+import type { ConversationSnapshot, NodeID, TreeNode } from "../tree/types";
+import type {
+	GenerationMetadata,
+	GenerationSettings,
+	GenerationUsage,
+	MessageContentPart,
+	ProviderKind,
+	TokenLogprob,
+	ToolCall,
+	ToolResult,
+} from "../types";
+import { describeError, isRecord } from "./chatImport";
+
+/** Something in a snapshot that importing will leave out or repair. */
+export interface SnapshotIssue {
+	nodeId?: NodeID;
+	/** Path to the offending value inside the node, e.g. `content[2].text`. */
+	field?: string;
+	message: string;
+	outcome: "drop-node" | "drop-field" | "detach" | "default";
+}
+
+const roles: TreeNode["role"][] = ["system", "user", "assistant", "tool"];
+const statuses: NonNullable<TreeNode["status"]>[] = [
+	"draft",
+	"streaming",
+	"final",
+	"error",
+];
+const providerKinds: ProviderKind[] = [
+	"openai-compatible",
+	"built-in",
+	"dummy",
+	"replay",
+];
+
+export const describeValue = (value: unknown) => {
+	if (value === undefined) {
+		return "nothing";
+	}
+	if (value === null) {
+		return "null";
+	}
+	if (Array.isArray(value)) {
+		return "a list";
+	}
+	if (typeof value === "object") {
+		return "an object";
+	}
+	const text = JSON.stringify(value);
+	return `${typeof value} ${text.length > 40 ? `${text.slice(0, 40)}…` : text}`;
+};
+
+/**
+ * Validation failures carry the path below the value being read, so nested
+ * readers can prefix their own position, e.g. `[2]` then `alternatives[0]`.
+ */
+class FieldError extends Error {
+	constructor(
+		readonly path: string,
+		readonly reason: string,
+	) {
+		super(path ? `${path}: ${reason}` : reason);
+	}
+}
+
+const joinPath = (base: string, path: string) =>
+	!path ? base : path.startsWith("[") ? `${base}${path}` : `${base}.${path}`;
+
+const fail = (what: string, value: unknown, path = ""): never => {
+	throw new FieldError(path, `expected ${what}, got ${describeValue(value)}`);
+};
+
+/** Runs a nested reader, adding `position` to the path of any failure. */
+const at = <T>(position: string, read: () => T): T => {
+	try {
+		return read();
+	} catch (error) {
+		if (error instanceof FieldError) {
+			throw new FieldError(joinPath(position, error.path), error.reason);
+		}
+		throw error;
+	}
+};
+
+const readString = (value: unknown, path = "") =>
+	typeof value === "string" ? value : fail("text", value, path);
+
+const readNumber = (value: unknown, path = "") =>
+	typeof value === "number" && Number.isFinite(value)
+		? value
+		: fail("a number", value, path);
+
+const readBoolean = (value: unknown, path = "") =>
+	typeof value === "boolean" ? value : fail("true or false", value, path);
+
+const readRecord = (value: unknown, path = "") =>
+	isRecord(value) ? value : fail("an object", value, path);
+
+const readList = (value: unknown, path = "") =>
+	Array.isArray(value) ? value : fail("a list", value, path);
+
+const readOneOf = <T extends string>(values: T[], value: unknown): T =>
+	values.includes(value as T)
+		? (value as T)
+		: fail(`one of ${values.join(", ")}`, value);
+
+const optional = <T>(value: unknown, read: (value: unknown) => T) =>
+	value === undefined ? undefined : read(value);
+
+const readContentPart = (value: unknown): MessageContentPart => {
+	const part = readRecord(value);
+	if (part.type === "text") {
+		return { type: "text", text: readString(part.text, "text") };
+	}
+	if (part.type === "image") {
+		const mimeType = optional(part.mimeType, (mime) =>
+			readString(mime, "mimeType"),
+		);
+		return {
+			type: "image",
+			image: readString(part.image, "image"),
+			...(mimeType !== undefined ? { mimeType } : {}),
+		};
+	}
+	return fail("text or image", part.type, "type");
+};
+
+const readTokenLogprobs = (value: unknown): TokenLogprob[] =>
+	readList(value).map((item, index) =>
+		at(`[${index}]`, () => {
+			const entry = readRecord(item);
+			return {
+				token: readString(entry.token, "token"),
+				probability: optional(entry.probability, (probability) =>
+					readNumber(probability, "probability"),
+				),
+				segment: optional(entry.segment, (segment) =>
+					at("segment", () => readOneOf(["content", "reasoning"], segment)),
+				),
+				alternatives: readList(entry.alternatives, "alternatives").map(
+					(alternative, alternativeIndex) =>
+						at(`alternatives[${alternativeIndex}]`, () => {
+							const record = readRecord(alternative);
+							return {
+								token: readString(record.token, "token"),
+								probability: readNumber(record.probability, "probability"),
+							};
+						}),
+				),
+			};
+		}),
+	);
+
+/** Copies the listed optional number fields; anything else is left out. */
+const readNumberFields = <K extends string>(
+	record: Record<string, unknown>,
+	keys: readonly K[],
+) => {
+	const result: Partial<Record<K, number>> = {};
+	for (const key of keys) {
+		const number = optional(record[key], (field) => readNumber(field, key));
+		if (number !== undefined) {
+			result[key] = number;
+		}
+	}
+	return result;
+};
+
+const settingNumberKeys = [
+	"temperature",
+	"topP",
+	"topK",
+	"minP",
+	"presencePenalty",
+	"frequencyPenalty",
+	"maxOutputTokens",
+	"seed",
+	"topLogprobs",
+] as const satisfies readonly (keyof GenerationSettings)[];
+
+const usageKeys = [
+	"inputTokens",
+	"outputTokens",
+	"reasoningTokens",
+	"totalTokens",
+] as const satisfies readonly (keyof GenerationUsage)[];
+
+const readSettings = (value: unknown): GenerationSettings => {
+	const settings = readRecord(value);
+	const stopSequences = optional(settings.stopSequences, (list) =>
+		readList(list, "stopSequences").map((item, index) =>
+			readString(item, `stopSequences[${index}]`),
+		),
+	);
+	return {
+		...readNumberFields(settings, settingNumberKeys),
+		...(stopSequences !== undefined ? { stopSequences } : {}),
+	};
+};
+
+const readGeneration = (value: unknown): GenerationMetadata => {
+	const generation = readRecord(value);
+	const modelId = optional(generation.modelId, (id) =>
+		readString(id, "modelId"),
+	);
+	const finishReason = optional(generation.finishReason, (reason) =>
+		readString(reason, "finishReason"),
+	);
+	const usage = optional(generation.usage, (record) =>
+		at("usage", () => readNumberFields(readRecord(record), usageKeys)),
+	);
+	return {
+		providerKind: at("providerKind", () =>
+			readOneOf(providerKinds, generation.providerKind),
+		),
+		settings: at("settings", () => readSettings(generation.settings)),
+		startedAt: readNumber(generation.startedAt, "startedAt"),
+		...readNumberFields(generation, ["firstTokenMs", "durationMs"] as const),
+		...(modelId !== undefined ? { modelId } : {}),
+		...(finishReason !== undefined ? { finishReason } : {}),
+		...(usage !== undefined ? { usage } : {}),
+	};
+};
+
+const readToolCalls = (value: unknown): ToolCall[] =>
+	readList(value).map((item, index) =>
+		at(`[${index}]`, () => {
+			const call = readRecord(item);
+			return {
+				toolCallId: readString(call.toolCallId, "toolCallId"),
+				toolName: readString(call.toolName, "toolName"),
+				input: call.input,
+			};
+		}),
+	);
+
+const readToolResult = (value: unknown): ToolResult => {
+	const result = readRecord(value);
+	const isError = optional(result.isError, (flag) =>
+		readBoolean(flag, "isError"),
+	);
+	return {
+		toolCallId: readString(result.toolCallId, "toolCallId"),
+		toolName: readString(result.toolName, "toolName"),
+		...(isError !== undefined ? { isError } : {}),
+	};
+};
+
+const readRank = (value: unknown) =>
+	typeof value === "number" && Number.isInteger(value) && value >= 1
+		? value
+		: fail("a whole number from 1", value);
+
+const optionalFields = {
+	reasoningContent: (value: unknown) => readString(value),
+	status: (value: unknown) => readOneOf(statuses, value),
+	tokenLogprobs: readTokenLogprobs,
+	generation: readGeneration,
+	toolCalls: readToolCalls,
+	toolResult: readToolResult,
+	starred: (value: unknown) => readBoolean(value),
+	rank: readRank,
+} satisfies Partial<Record<keyof TreeNode, (value: unknown) => unknown>>;
+
+const knownFields = new Set<string>([
+	"id",
+	"role",
+	"content",
+	"createdAt",
+	"parentId",
+	...Object.keys(optionalFields),
+]);
+
+/** Reads one node, or returns null when it cannot be kept at all. */
+const readNode = (
+	id: NodeID,
+	raw: unknown,
+	issues: SnapshotIssue[],
+): TreeNode | null => {
+	const report = (
+		field: string | undefined,
+		message: string,
+		outcome: SnapshotIssue["outcome"],
+	) => issues.push({ nodeId: id, field, message, outcome });
+	const reportError = (
+		field: string,
+		error: unknown,
+		outcome: SnapshotIssue["outcome"],
+	) =>
+		error instanceof FieldError
+			? report(joinPath(field, error.path), error.reason, outcome)
+			: report(field, describeError(error), outcome);
+
+	if (!isRecord(raw)) {
+		report(
+			undefined,
+			`expected an object, got ${describeValue(raw)}`,
+			"drop-node",
+		);
+		return null;
+	}
+	let role: TreeNode["role"];
+	try {
+		role = readOneOf(roles, raw.role);
+	} catch (error) {
+		reportError("role", error, "drop-node");
+		return null;
+	}
+	let content: TreeNode["content"] = "";
+	if (raw.content === undefined || raw.content === null) {
+		report("content", "is missing; imported as empty text", "default");
+	} else if (typeof raw.content === "string") {
+		content = raw.content;
+	} else if (Array.isArray(raw.content)) {
+		const parts: MessageContentPart[] = [];
+		raw.content.forEach((part, index) => {
+			try {
+				parts.push(readContentPart(part));
+			} catch (error) {
+				reportError(`content[${index}]`, error, "drop-field");
+			}
+		});
+		content = parts;
+	} else {
+		report(
+			"content",
+			`expected text or a list of parts, got ${describeValue(raw.content)}`,
+			"drop-node",
+		);
+		return null;
+	}
+	if (raw.id !== undefined && raw.id !== id) {
+		report("id", `${describeValue(raw.id)} differs from its key`, "default");
+	}
+	let createdAt = Date.now();
+	try {
+		createdAt = readNumber(raw.createdAt);
+	} catch (error) {
+		report(
+			"createdAt",
+			`expected a timestamp, got ${describeValue(raw.createdAt)}; the import time is used`,
+			"default",
+		);
+	}
+	let parentId: NodeID | null = null;
+	if (typeof raw.parentId === "string") {
+		parentId = raw.parentId;
+	} else if (raw.parentId !== undefined && raw.parentId !== null) {
+		report(
+			"parentId",
+			`expected a node id, got ${describeValue(raw.parentId)}`,
+			"detach",
+		);
+	}
+	const node: TreeNode = { id, role, content, createdAt, parentId };
+	for (const [field, read] of Object.entries(optionalFields)) {
+		if (raw[field] === undefined) {
+			continue;
+		}
+		try {
+			Object.assign(node, { [field]: read(raw[field]) });
+		} catch (error) {
+			reportError(field, error, "drop-field");
+		}
+	}
+	for (const field of Object.keys(raw)) {
+		if (!knownFields.has(field)) {
+			report(field, "is not a snapshot field", "drop-field");
+		}
+	}
+	return node;
+};
+
+/** Clears parent links that point at missing nodes or loop back on themselves. */
+const repairParents = (
+	nodes: Record<NodeID, TreeNode>,
+	issues: SnapshotIssue[],
+) => {
+	for (const node of Object.values(nodes)) {
+		if (node.parentId && !nodes[node.parentId]) {
+			issues.push({
+				nodeId: node.id,
+				field: "parentId",
+				message: `points at missing node ${node.parentId}`,
+				outcome: "detach",
+			});
+			node.parentId = null;
+		}
+	}
+	const settled = new Set<NodeID>();
+	for (const start of Object.values(nodes)) {
+		const walk = new Set<NodeID>();
+		let current: TreeNode | undefined = start;
+		while (current && !settled.has(current.id)) {
+			walk.add(current.id);
+			const parent: TreeNode | undefined = current.parentId
+				? nodes[current.parentId]
+				: undefined;
+			if (parent && walk.has(parent.id)) {
+				issues.push({
+					nodeId: current.id,
+					field: "parentId",
+					message: `closes a loop through ${parent.id}`,
+					outcome: "detach",
+				});
+				current.parentId = null;
+				break;
+			}
+			current = parent;
+		}
+		for (const id of walk) {
+			settled.add(id);
+		}
+	}
+};
+
+/**
+ * Checks a current-version snapshot node by node without touching the store.
+ * Anything that cannot be kept is left out and listed in `issues`; the file
+ * is only rejected when its shape is wrong or none of its nodes survive.
+ */
+export const validateSnapshot = (
+	data: Record<string, unknown>,
+): { snapshot: ConversationSnapshot; issues: SnapshotIssue[] } => {
+	const tree = isRecord(data.tree) ? data.tree : undefined;
+	if (!isRecord(tree?.nodes)) {
+		throw new Error(
+			`Snapshot field "tree.nodes": expected an object of nodes keyed by id, got ${describeValue(tree ? tree.nodes : data.tree)}`,
+		);
+	}
+	const issues: SnapshotIssue[] = [];
+	const nodes: Record<NodeID, TreeNode> = {};
+	for (const [id, raw] of Object.entries(tree.nodes)) {
+		const node = readNode(id, raw, issues);
+		if (node) {
+			nodes[id] = node;
+		}
+	}
+	// An empty tree is what a cleared conversation exports.
+	const first = issues[0];
+	if (Object.keys(nodes).length === 0 && first) {
+		throw new Error(
+			`No valid nodes. Node ${first.nodeId}${first.field ? `, field "${first.field}"` : ""}: ${first.message}`,
+		);
+	}
+	repairParents(nodes, issues);
+	let activeTargetId: NodeID | undefined;
+	if (typeof data.activeTargetId === "string" && nodes[data.activeTargetId]) {
+		activeTargetId = data.activeTargetId;
+	} else if (
+		data.activeTargetId !== undefined &&
+		data.activeTargetId !== null
+	) {
+		issues.push({
+			field: "activeTargetId",
+			message: `${describeValue(data.activeTargetId)} is not an imported node; the newest branch is shown instead`,
+			outcome: "default",
+		});
+	}
+	return {
+		snapshot: {
+			version: 2,
+			exportedAt:
+				typeof data.exportedAt === "string"
+					? data.exportedAt
+					: new Date().toISOString(),
+			tree: { nodes },
+			activeTargetId,
+		},
+		issues,
+	};
+};
@@ -1,21 +1,135 @@
 import type { ConversationSnapshot } from "../tree/types";
+import {
+	isChatGPTExport,
+	isShareGPTRecord,
+	isSillyTavernRecord,
+	readChatGPTExport,
+	readShareGPTJson,
+	readShareGPTJsonl,
+	readSillyTavernJsonl,
+} from "./chatAppImport";
+import {
+	type ChatImport,
+	conversationsToSnapshot,
+	isRecord,
+	readFirstJsonlRecord,
+} from "./chatImport";
+import { downloadFile, fileTimestamp } from "./download";
+import { readOpenAIChatJson, readOpenAIChatJsonl } from "./openaiChatImport";
+import { migrateSnapshot } from "./snapshotMigrations";
+import { type SnapshotIssue, validateSnapshot } from "./snapshotValidation";
+
+/** What importing a snapshot file will do, worked out before anything changes. */
+export interface SnapshotReport {
+	sourceVersion: number;
+	/** Labels of the upgrade steps the file went through. */
+	migrations: string[];
+	issues: SnapshotIssue[];
+	nodeCount: number;
+}
+
+export type ParsedImport =
+	| {
+			format: "snapshot";
+			snapshot: ConversationSnapshot;
+			report: SnapshotReport;
+	  }
+	| (ChatImport & {
+			snapshot: ConversationSnapshot;
+			/** What the numbers in `line` count: JSONL lines or JSON list items. */
+			itemLabel: "Line" | "Item";
+	  });
 
 export const exportSnapshotToFile = (snapshot: ConversationSnapshot) => {
-	const blob = new Blob([JSON.stringify(snapshot, null, 2)], {
-		type: "application/json",
-	});
-	const url = URL.createObjectURL(blob);
-	const anchor = document.createElement("a");
-	const safeTimestamp = snapshot.exportedAt.replace(/[:]/g, "-");
-	anchor.href = url;
-	anchor.download = `iaslate_tree_${safeTimestamp}.json`;
-	anchor.click();
-	URL.revokeObjectURL(url);
+	downloadFile(
+		`iaslate_tree_${fileTimestamp(snapshot.exportedAt)}.json`,
+		"application/json",
+		JSON.stringify(snapshot, null, 2),
+	);
+};
+
+const withSnapshot = (
+	chat: ChatImport,
+	itemLabel: "Line" | "Item",
+): ParsedImport => ({
+	...chat,
+	snapshot: conversationsToSnapshot(chat.conversations),
+	itemLabel,
+});
+
+/**
+ * Upgrades and validates a snapshot as a dry run. Throws with the offending
+ * field when the file cannot be imported at all.
+ */
+export const readSnapshot = (
+	data: unknown,
+): { snapshot: ConversationSnapshot; report: SnapshotReport } => {
+	const issues: SnapshotIssue[] = [];
+	const migrated = migrateSnapshot(data, issues);
+	const validated = validateSnapshot(migrated.data);
+	return {
+		snapshot: validated.snapshot,
+		report: {
+			sourceVersion: migrated.sourceVersion,
+			migrations: migrated.migrations,
+			issues: [...issues, ...validated.issues],
+			nodeCount: Object.keys(validated.snapshot.tree.nodes).length,
+		},
+	};
+};
+
+const readJsonl = (text: string) => {
+	const first = readFirstJsonlRecord(text);
+	if (isSillyTavernRecord(first)) {
+		return readSillyTavernJsonl(text);
+	}
+	if (isShareGPTRecord(first)) {
+		return readShareGPTJsonl(text);
+	}
+	return readOpenAIChatJsonl(text);
+};
+
+const readJson = (data: unknown) => {
+	if (isChatGPTExport(data)) {
+		return readChatGPTExport(data);
+	}
+	if (
+		isShareGPTRecord(data) ||
+		(Array.isArray(data) && data.length > 0 && data.every(isShareGPTRecord))
+	) {
+		return readShareGPTJson(data);
+	}
+	// A SillyTavern chat that holds only its header line.
+	if (isSillyTavernRecord(data)) {
+		return readSillyTavernJsonl(JSON.stringify(data));
+	}
+	return readOpenAIChatJson(data);
 };
 
-export const parseSnapshotFile = async (
-	file: File,
-): Promise<ConversationSnapshot> => {
+/**
+ * Detects whether a file is an iaslate snapshot, a chat-completions request,
+ * a JSONL fine-tuning dataset or a chat app export, and reads it accordingly.
+ * Nothing is imported yet; snapshots come back upgraded and validated.
+ */
+export const parseImportFile = async (file: File): Promise<ParsedImport> => {
 	const fileContents = await file.text();
-	return JSON.parse(fileContents) as ConversationSnapshot;
+	let data: unknown;
+	try {
+		data = JSON.parse(fileContents);
+	} catch (error) {
+		if (fileContents.trim().includes("\n")) {
+			return withSnapshot(readJsonl(fileContents), "Line");
+		}
+		throw error;
+	}
+	if (isRecord(data) && "version" in data) {
+		return { format: "snapshot", ...readSnapshot(data) };
+	}
+	const chat = readJson(data);
+	if (!chat) {
+		throw new Error(
+			"Unrecognized file. Expected an iaslate snapshot, OpenAI chat messages, a ChatGPT export, a SillyTavern chat or ShareGPT conversations",
+		);
+	}
+	return withSnapshot(chat, "Item");
 };
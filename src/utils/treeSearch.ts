@@ -0,0 +1,143 @@
+import type { NodeID, TreeNode } from "../tree/types";
+import type { MessageContent } from "../types";
+
+export type SearchRole = TreeNode["role"];
+
+export interface SearchOptions {
+	query: string;
+	roles: SearchRole[];
+	useRegex: boolean;
+	caseSensitive: boolean;
+}
+
+export interface SearchHit {
+	nodeId: NodeID;
+	role: SearchRole;
+	field: "content" | "reasoning";
+	before: string;
+	match: string;
+	after: string;
+	path: Array<{ id: NodeID; role: SearchRole; excerpt: string }>;
+}
+
+export interface SearchResult {
+	hits: SearchHit[];
+	truncated: boolean;
+	error?: string;
+}
+
+interface IndexedNode {
+	node: TreeNode;
+	content: string;
+	reasoning: string;
+}
+
+const SNIPPET_RADIUS = 40;
+const EXCERPT_LENGTH = 48;
+const MAX_HITS = 200;
+
+const toPlainText = (content: MessageContent) =>
+	typeof content === "string"
+		? content
+		: content
+				.filter((part) => part.type === "text")
+				.map((part) => part.text)
+				.join("\n\n");
+
+const collapse = (text: string) => text.replace(/\s+/g, " ");
+
+const escapeRegExp = (text: string) =>
+	text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const buildSearchIndex = (
+	nodes: Record<NodeID, TreeNode>,
+): IndexedNode[] =>
+	Object.values(nodes)
+		.sort((a, b) => a.createdAt - b.createdAt)
+		.map((node) => ({
+			node,
+			content: toPlainText(node.content),
+			reasoning: node.reasoningContent ?? "",
+		}));
+
+const buildPath = (nodes: Record<NodeID, TreeNode>, nodeId: NodeID) => {
+	const path: SearchHit["path"] = [];
+	const visited = new Set<NodeID>();
+	let cursor: TreeNode | undefined = nodes[nodeId];
+	while (cursor && !visited.has(cursor.id)) {
+		visited.add(cursor.id);
+		const text = collapse(toPlainText(cursor.content)).trim();
+		path.unshift({
+			id: cursor.id,
+			role: cursor.role,
+			excerpt:
+				text.length > EXCERPT_LENGTH
+					? `${text.slice(0, EXCERPT_LENGTH)}…`
+					: text,
+		});
+		cursor = cursor.parentId ? nodes[cursor.parentId] : undefined;
+	}
+	return path;
+};
+
+/**
+ * Finds the first match per field in every node, on and off the active path.
+ * An invalid regular expression is reported through `error` instead of
+ * throwing.
+ */
+export const searchTree = (
+	nodes: Record<NodeID, TreeNode>,
+	index: IndexedNode[],
+	{ query, roles, useRegex, caseSensitive }: SearchOptions,
+): SearchResult => {
+	if (!query) {
+		return { hits: [], truncated: false };
+	}
+	let pattern: RegExp;
+	try {
+		pattern = new RegExp(
+			useRegex ? query : escapeRegExp(query),
+			caseSensitive ? "" : "i",
+		);
+	} catch (error) {
+		return {
+			hits: [],
+			truncated: false,
+			error: error instanceof Error ? error.message : "Invalid pattern",
+		};
+	}
+	const allowedRoles = new Set(roles);
+	const hits: SearchHit[] = [];
+	for (const entry of index) {
+		if (!allowedRoles.has(entry.node.role)) {
+			continue;
+		}
+		const fields = [
+			["content", entry.content],
+			["reasoning", entry.reasoning],
+		] as const;
+		for (const [field, text] of fields) {
+			const found = pattern.exec(text);
+			if (!found || found[0].length === 0) {
+				continue;
+			}
+			if (hits.length === MAX_HITS) {
+				return { hits, truncated: true };
+			}
+			const start = found.index;
+			const end = start + found[0].length;
+			hits.push({
+				nodeId: entry.node.id,
+				role: entry.node.role,
+				field,
+				before: collapse(
+					text.slice(Math.max(0, start - SNIPPET_RADIUS), start),
+				).trimStart(),
+				match: collapse(found[0]),
+				after: collapse(text.slice(end, end + SNIPPET_RADIUS)).trimEnd(),
+				path: buildPath(nodes, entry.node.id),
+			});
+		}
+	}
+	return { hits, truncated: false };
+};